@@ -0,0 +1,218 @@
+/**
+ * Storage backends for the result store
+ * @module adapters
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { withFileLock, writeFileAtomic } from './lock.js';
+import { encodeValue, decodeValue } from './serializer.js';
+import type { RelayStoreAdapter, AsyncRelayStoreAdapter, TestResult } from './types.js';
+
+/** Options of the file and directory adapters */
+export interface FileAdapterOptions {
+  /** Called once per version of a file that cannot be parsed; its contents are ignored */
+  onCorrupted?: (filePath: string, error: Error) => void;
+}
+
+/** Contents of a store file; each result is encoded with encodeValue */
+interface StoreFile {
+  results: Record<string, unknown>;
+}
+
+/** Contents of a file of the directory adapter */
+interface StoreEntry {
+  key: string;
+  result: unknown;
+}
+
+type CorruptionReporter = (filePath: string, version: string, error: unknown) => void;
+
+/** Whether an adapter is asynchronous */
+export function isAsyncAdapter(
+  adapter: RelayStoreAdapter | AsyncRelayStoreAdapter
+): adapter is AsyncRelayStoreAdapter {
+  return (adapter as AsyncRelayStoreAdapter).async === true;
+}
+
+/**
+ * Keep results in this process only. The default backend.
+ */
+export function createMemoryAdapter(): RelayStoreAdapter {
+  const results = new Map<string, TestResult>();
+  return {
+    get: key => results.get(key),
+    set: (key, result) => { results.set(key, result); },
+    delete: key => { results.delete(key); },
+    list: () => [...results.keys()],
+    clear: () => { results.clear(); },
+  };
+}
+
+function createCorruptionReporter(options: FileAdapterOptions): CorruptionReporter {
+  // Versions of corrupted files already reported, so each is reported once
+  const reported = new Set<string>();
+  return (filePath, version, error) => {
+    if (reported.has(version)) return;
+    reported.add(version);
+    options.onCorrupted?.(filePath, error instanceof Error ? error : new Error(String(error)));
+  };
+}
+
+/** Identifies one version of a file; every atomic write creates a new inode */
+function getFileVersion(filePath: string): string | undefined {
+  try {
+    const stats = fs.statSync(filePath);
+    return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+function parseStoreFile(content: string): StoreFile {
+  const parsed = JSON.parse(content);
+  if (typeof parsed?.results !== 'object' || parsed.results === null) {
+    throw new Error('Missing "results" object');
+  }
+  return parsed;
+}
+
+function serializeStoreFile(results: Record<string, unknown>): string {
+  return JSON.stringify({ results }, null, 2);
+}
+
+/**
+ * Replace a store file with the given results, in the format of the file adapter.
+ * Results that cannot be encoded are left out and passed to `onSkipped`.
+ */
+export function writeStoreFile(
+  filePath: string,
+  results: Iterable<[string, TestResult]>,
+  onSkipped?: (key: string, error: unknown) => void
+): void {
+  const encoded: Record<string, unknown> = {};
+  for (const [key, result] of results) {
+    try {
+      encoded[key] = encodeValue(result);
+    } catch (error) {
+      onSkipped?.(key, error);
+    }
+  }
+  writeFileAtomic(filePath, serializeStoreFile(encoded));
+}
+
+/**
+ * Keep all results in one JSON file that processes share.
+ * Writes replace the file atomically under a lock file, so reads need no lock.
+ */
+export function createFileAdapter(filePath: string, options: FileAdapterOptions = {}): RelayStoreAdapter {
+  const reportCorruption = createCorruptionReporter(options);
+  let cache: { version: string; file: StoreFile } | undefined;
+
+  const read = (): StoreFile => {
+    const version = getFileVersion(filePath);
+    if (!version) return { results: {} };
+    if (cache?.version === version) return cache.file;
+
+    let file: StoreFile;
+    try {
+      file = parseStoreFile(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      // Removed since it was looked at
+      if (isNotFound(error)) return { results: {} };
+      reportCorruption(filePath, version, error);
+      file = { results: {} };
+    }
+    cache = { version, file };
+    return file;
+  };
+
+  // Hold the lock from read to write so concurrent writers don't drop each other's results
+  const update = (change: (results: Record<string, unknown>) => void) => {
+    withFileLock(filePath, () => {
+      const results = { ...read().results };
+      change(results);
+      writeFileAtomic(filePath, serializeStoreFile(results));
+    });
+  };
+
+  return {
+    get: key => {
+      const { results } = read();
+      return Object.prototype.hasOwnProperty.call(results, key)
+        ? decodeValue(results[key]) as TestResult
+        : undefined;
+    },
+    set: (key, result) => update(results => { results[key] = encodeValue(result); }),
+    delete: key => update(results => { delete results[key]; }),
+    list: () => Object.keys(read().results),
+    clear: () => withFileLock(filePath, () => fs.rmSync(filePath, { force: true })),
+  };
+}
+
+/**
+ * Keep every result in a file of its own in `directory`, named after a hash of its key.
+ * Writers of different keys never contend, and each file is replaced atomically.
+ */
+export function createDirectoryAdapter(directory: string, options: FileAdapterOptions = {}): RelayStoreAdapter {
+  const reportCorruption = createCorruptionReporter(options);
+
+  const getEntryPath = (key: string) =>
+    path.join(directory, `${crypto.createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+
+  const readEntry = (entryPath: string): StoreEntry | undefined => {
+    const version = getFileVersion(entryPath);
+    if (!version) return undefined;
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+      if (typeof entry?.key !== 'string' || !('result' in entry)) {
+        throw new Error('Missing "key" or "result"');
+      }
+      return entry;
+    } catch (error) {
+      if (!isNotFound(error)) reportCorruption(entryPath, version, error);
+      return undefined;
+    }
+  };
+
+  const listEntryPaths = (): string[] => {
+    try {
+      // Temporary files of writes in progress end in .tmp
+      return fs.readdirSync(directory)
+        .filter(name => name.endsWith('.json'))
+        .map(name => path.join(directory, name));
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    get: key => {
+      const entry = readEntry(getEntryPath(key));
+      return entry?.key === key ? decodeValue(entry.result) as TestResult : undefined;
+    },
+    set: (key, result) => {
+      fs.mkdirSync(directory, { recursive: true });
+      const entry: StoreEntry = { key, result: encodeValue(result) };
+      writeFileAtomic(getEntryPath(key), JSON.stringify(entry, null, 2));
+    },
+    delete: key => {
+      fs.rmSync(getEntryPath(key), { force: true });
+    },
+    list: () => listEntryPaths().flatMap(entryPath => {
+      const entry = readEntry(entryPath);
+      return entry ? [entry.key] : [];
+    }),
+    clear: () => {
+      for (const entryPath of listEntryPaths()) {
+        fs.rmSync(entryPath, { force: true });
+      }
+    },
+  };
+}
@@ -7,6 +7,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { generateGraph, generateHtmlGraph } from './visualize.js';
+import { formatLocation } from './parser.js';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -85,6 +86,13 @@ async function runGraph(args: string[]): Promise<void> {
       if (!outputFile) {
         console.log(`\n📊 Found ${result.testCount} tests with ${result.dependencyCount} dependencies\n`);
       }
+      
+      for (const issue of result.dataIssues) {
+        const where = issue.location ? `${formatLocation(issue.location)} ` : '';
+        console.warn(issue.producers.length === 0
+          ? `⚠ ${where}${issue.testId}: no test provides "${issue.dataName}"`
+          : `⚠ ${where}${issue.testId}: "${issue.dataName}" is provided by several tests: ${issue.producers.join(', ')}`);
+      }
     }
     
     if (outputFile) {
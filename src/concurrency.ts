@@ -0,0 +1,58 @@
+/**
+ * Bounded concurrency for dependency execution
+ * @module concurrency
+ */
+
+/**
+ * Call `fn` for every item, with at most `limit` calls in flight.
+ * After a failure no further items start; once the running calls settle,
+ * the error of the earliest failed item is thrown.
+ */
+export async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  const errors = new Map<number, unknown>();
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && errors.size === 0) {
+      const index = next++;
+      try {
+        await fn(items[index]);
+      } catch (error) {
+        errors.set(index, error);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (errors.size > 0) {
+    throw errors.get(Math.min(...errors.keys()));
+  }
+}
+
+// Dependency executions in flight in this process, shared by every level of nested dependencies
+let activeExecutions = 0;
+const waitingExecutions: Array<() => void> = [];
+
+/**
+ * Run `task` once fewer than `limit` dependency executions are in flight in this process.
+ * Only the execution itself holds a slot, not the wait for its own dependencies,
+ * so nested dependencies count against the same limit without blocking each other.
+ */
+export async function runLimited<T>(limit: number, task: () => Promise<T>): Promise<T> {
+  while (activeExecutions >= Math.max(1, limit)) {
+    await new Promise<void>(resolve => waitingExecutions.push(resolve));
+  }
+  activeExecutions++;
+  try {
+    return await task();
+  } finally {
+    activeExecutions--;
+    waitingExecutions.shift()?.();
+  }
+}
@@ -4,184 +4,175 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { execSync } from 'child_process';
-import type { DependencyDefinition } from './types.js';
-import { resultStore } from './store.js';
-import { parseTestKey, resolveFilePath, parseTestFile } from './parser.js';
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import type { JSONReport } from '@playwright/test/reporter';
+import type { DependencyDefinition, DiscoveredTest, ResultSource, SourceLocation, TestInfo } from './types.js';
+import type { CollectedTest } from './loader.js';
+import { resultStore, getRunStorePath } from './store.js';
+import { loadSpecModule } from './loader.js';
+import { runWithFixtures } from './fixtures.js';
+import { forEachConcurrent, runLimited } from './concurrency.js';
+import { getRetryPolicy, runWithRetries } from './retry.js';
+import type { RetryPolicy } from './retry.js';
+import { runWithTimeout } from './timeout.js';
+import { readReportedTests } from './report.js';
+import { getResultSource } from './fingerprint.js';
+import { getRelayConfig } from './relay.js';
+import { buildGraphFromFiles } from './visualize.js';
+import type { DependencyGraph } from './graph.js';
+import {
+  parseTestKey,
+  resolveFilePath,
+  parseTestFile,
+  parseDependsValue,
+  matchesDependency,
+  discoverTestsInFile,
+  escapeRegex,
+  findProjectRoot,
+  declaredAt,
+  dataKey,
+  getPathKey,
+  resolveDependencies,
+} from './parser.js';
 
 // Cache for loaded test modules
-const moduleCache = new Map<string, Map<string, () => Promise<unknown>>>();
+/** Test loaded for in-process execution; stops and tears down its fixtures when the signal aborts */
+export type InProcessTest = (signal?: AbortSignal) => Promise<unknown>;
 
-// Track which files have been executed via subprocess
-const executedFiles = new Set<string>();
+const moduleCache = new Map<string, Map<string, InProcessTest>>();
 
-// Regex to extract test blocks with their bodies
-const TEST_BLOCK_REGEX = /(?:\/\*\*[\s\S]*?\*\/\s*)?test\s*\(\s*(['"`])([^'"`]+)\1\s*,\s*async\s*\([^)]*\)\s*=>\s*\{/g;
+// Subprocess runs per file, or file and test title, shared by concurrent dependents
+const fileExecutions = new Map<string, Promise<void>>();
 
-interface TestDefinition {
-  title: string;
-  startIndex: number;
-  bodyStartIndex: number;
+// Exit code and stderr of the last subprocess that ran each file, for errors of its tests
+const processOutcomes = new Map<string, { exitCode: number | null; stderr: string }>();
+
+// Amount of subprocess stderr kept for error messages
+const MAX_CAPTURED_STDERR = 16 * 1024;
+
+/** Options of the Playwright run that dependency subprocesses should match */
+export interface PlaywrightRunContext {
+  /** Config file of the current run */
+  configFile?: string;
+  /** Project of the test whose dependencies run */
+  projectName?: string;
+  /** Whether browsers run headed */
+  headed?: boolean;
+  /** Test timeout of the project (ms) */
+  timeout?: number;
 }
 
+let runContext: PlaywrightRunContext = {};
+
 /**
- * Find matching closing brace for a code block
+ * Set the Playwright options forwarded to dependency subprocesses.
+ * Called by the relay fixture, so a dependency runs with the same config and project as its dependent.
  */
-function findClosingBrace(source: string, startIndex: number): number {
-  let depth = 1;
-  let i = startIndex;
-  
-  while (i < source.length && depth > 0) {
-    const char = source[i];
-    
-    // Skip strings
-    if (char === '"' || char === "'" || char === '`') {
-      const quote = char;
-      i++;
-      while (i < source.length && source[i] !== quote) {
-        if (source[i] === '\\') i++; // Skip escaped chars
-        i++;
-      }
-    }
-    // Skip comments
-    else if (char === '/' && source[i + 1] === '/') {
-      while (i < source.length && source[i] !== '\n') i++;
-    }
-    else if (char === '/' && source[i + 1] === '*') {
-      i += 2;
-      while (i < source.length - 1 && !(source[i] === '*' && source[i + 1] === '/')) i++;
-      i++;
-    }
-    else if (char === '{') {
-      depth++;
-    }
-    else if (char === '}') {
-      depth--;
-    }
-    
-    i++;
-  }
-  
-  return i;
+export function setPlaywrightRunContext(context: PlaywrightRunContext): void {
+  runContext = context;
 }
 
+// Run directories of subprocesses that have not finished yet
+const activeRunDirs = new Set<string>();
+let exitCleanupRegistered = false;
+
 /**
- * Extract test definitions from source code
+ * Create a private directory for one subprocess run. The child writes its store there
+ * instead of the machine-wide store file, so concurrent runs cannot overwrite each other.
  */
-function extractTestDefinitions(source: string): TestDefinition[] {
-  const tests: TestDefinition[] = [];
-  TEST_BLOCK_REGEX.lastIndex = 0;
-  
-  let match: RegExpExecArray | null;
-  while ((match = TEST_BLOCK_REGEX.exec(source)) !== null) {
-    tests.push({
-      title: match[2],
-      startIndex: match.index,
-      bodyStartIndex: match.index + match[0].length,
+function createRunDir(): string {
+  if (!exitCleanupRegistered) {
+    exitCleanupRegistered = true;
+    process.once('exit', () => {
+      for (const runDir of activeRunDirs) removeRunDir(runDir);
     });
   }
   
-  return tests;
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-relay-run-'));
+  activeRunDirs.add(runDir);
+  return runDir;
+}
+
+function removeRunDir(runDir: string): void {
+  activeRunDirs.delete(runDir);
+  fs.rmSync(runDir, { recursive: true, force: true });
+}
+
+/** Error thrown when the Playwright subprocess running a cross-file dependency fails */
+export class DependencyProcessError extends Error {
+  constructor(
+    message: string,
+    /** Exit code of the subprocess; null when it did not start or was killed */
+    public readonly exitCode: number | null,
+    /** Tail of the subprocess stderr */
+    public readonly stderr: string
+  ) {
+    super(stderr.trim() ? `${message}\n${stderr.trim()}` : message);
+    this.name = 'DependencyProcessError';
+  }
 }
 
 /**
- * Extract the body of a specific test from source
+ * Dependencies declared on a collected test, resolved like those of a test in a Playwright run.
+ * The declaration in the same describe block wins when titles repeat across suites.
  */
-function extractTestBody(source: string, testTitle: string): string | null {
-  const tests = extractTestDefinitions(source);
-  const testDef = tests.find(t => t.title === testTitle);
-  
-  if (!testDef) return null;
-  
-  const bodyEnd = findClosingBrace(source, testDef.bodyStartIndex);
-  // Extract body without the outer braces
-  return source.substring(testDef.bodyStartIndex, bodyEnd - 1);
+function getDeclaredDependencies(test: CollectedTest, filePath: string): DependencyDefinition[] {
+  let discovered: DiscoveredTest[];
+  try {
+    discovered = discoverTestsInFile(filePath);
+  } catch {
+    return [];
+  }
+  const candidates = discovered.filter(candidate => candidate.title === test.title);
+  const declaration = candidates.find(candidate =>
+    candidate.describePath.join(' > ') === test.describePath.join(' > ')
+  ) ?? candidates[0];
+  return resolveDependencies(declaration?.dependencies ?? [], filePath);
 }
 
 /**
- * Create an executable function from test body
- * This creates a minimal execution context for the test
+ * Create an executable function from a test collected from its spec module.
+ * Its own dependencies run first, and its relay resolves them as in a Playwright run.
  */
 function createTestFunction(
-  testBody: string,
+  test: CollectedTest,
   filePath: string
-): () => Promise<unknown> {
-  return async () => {
-    // Create a minimal relay-like object for executing dependencies
-    const { createRelay, storeTestResult } = await import('./relay.js');
-    const relay = createRelay(filePath);
-    
-    // Create execution context
-    const context = {
-      relay,
-      storeTestResult,
-      // Add commonly used globals
-      console,
-      Math,
-      Date,
-      JSON,
-      Promise,
-      setTimeout,
-      clearTimeout,
-      setInterval,
-      clearInterval,
-    };
-    
-    // We need to evaluate the test body
-    // This is a simplified approach - in production you might want to use vm module
-    const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
-    
-    try {
-      // Create function with relay and storeTestResult in scope
-      const fn = new AsyncFunction(
-        'relay', 
-        'storeTestResult',
-        'console',
-        'Math',
-        'Date', 
-        'JSON',
-        testBody
-      );
-      
-      return await fn(
-        context.relay,
-        context.storeTestResult,
-        context.console,
-        context.Math,
-        context.Date,
-        context.JSON
-      );
-    } catch (error) {
-      // Re-throw with more context
-      const err = error as Error;
-      throw new Error(`Failed to execute test body: ${err.message}`);
+): InProcessTest {
+  return async signal => {
+    const { createRelay } = await import('./relay.js');
+    const deps = getDeclaredDependencies(test, filePath);
+    if (deps.length > 0) {
+      await executeAllDependencies(deps, filePath);
     }
+    const relay = createRelay(filePath, deps);
+    return runLimited(getRelayConfig().maxConcurrentDependencies, () =>
+      runWithFixtures(test.fn, { title: test.title, file: filePath }, { relay }, signal)
+    );
   };
 }
 
 /**
  * Load and cache test functions from a file
  */
-export function loadTestsFromFile(filePath: string): Map<string, () => Promise<unknown>> {
+export function loadTestsFromFile(filePath: string): Map<string, InProcessTest> {
   if (moduleCache.has(filePath)) {
     return moduleCache.get(filePath)!;
   }
   
-  const tests = new Map<string, () => Promise<unknown>>();
+  const tests = new Map<string, InProcessTest>();
   
   try {
-    const source = fs.readFileSync(filePath, 'utf-8');
-    const testDefs = extractTestDefinitions(source);
-    
-    for (const testDef of testDefs) {
-      const body = extractTestBody(source, testDef.title);
-      if (body) {
-        tests.set(testDef.title, createTestFunction(body, filePath));
+    for (const test of loadSpecModule(filePath)) {
+      // First declaration wins when titles repeat across describe blocks
+      if (!tests.has(test.title)) {
+        tests.set(test.title, createTestFunction(test, filePath));
       }
     }
   } catch (error) {
-    console.warn(`Failed to load tests from ${filePath}:`, error);
+    console.warn(`Failed to load tests from ${filePath}: ${(error as Error).message}`);
   }
   
   moduleCache.set(filePath, tests);
@@ -197,15 +188,17 @@ export async function executeDependency(
 ): Promise<unknown> {
   const { file, testTitle } = parseTestKey(dep.fullKey);
   
-  // Check if already executed
-  const keys = [dep.fullKey, testTitle];
-  if (file) keys.push(`${file} > ${testTitle}`);
+  // Check if already executed; a path names one file, so other files' results must not match
+  const keys = file?.includes('/')
+    ? [dep.fullKey, getPathKey(resolveFilePath(currentFile, file), testTitle)]
+    : [dep.fullKey, testTitle, ...(file ? [`${file} > ${testTitle}`] : [])];
   
   for (const key of keys) {
-    if (resultStore.has(key)) {
-      const status = resultStore.getStatus(key);
+    const existing = await resultStore.getAsync(key, { maxAge: dep.ttl });
+    if (existing) {
+      const { status } = existing;
       if (status === 'passed') {
-        return resultStore.getData(key);
+        return existing.data;
       }
       if (status === 'failed') {
         throw new Error(`Dependency "${key}" failed`);
@@ -218,23 +211,41 @@ export async function executeDependency(
     }
   }
   
+  if (dep.pattern) {
+    return executePatternDependency(dep, currentFile);
+  }
+  
+  // A data dependency still keyed by its name has no known producer
+  if (dep.dataName && testTitle === dataKey(dep.dataName)) {
+    throw new Error(
+      `No test provides "${dep.dataName}". Add "@provides ${dep.dataName}" to the test that creates it` +
+      (dep.file ? ` in "${dep.file}".` : `, or name its file: "@depends-data file.spec.ts > ${dep.dataName}".`)
+    );
+  }
+  
   // If this is a cross-file dependency, try to execute it via subprocess
   if (file) {
     const targetFile = resolveFilePath(currentFile, file);
     
     if (fs.existsSync(targetFile)) {
       // Execute the dependency file via Playwright subprocess
-      await executeFileViaPlaywright(targetFile, testTitle);
+      await executeFileViaPlaywright(targetFile, testTitle, getRetryPolicy(getRelayConfig(), dep).retries);
       
       // Check if the dependency was executed successfully
       for (const key of keys) {
-        if (resultStore.has(key)) {
-          const status = resultStore.getStatus(key);
+        const result = await resultStore.getAsync(key, { maxAge: dep.ttl });
+        if (result) {
+          const { status } = result;
           if (status === 'passed') {
-            return resultStore.getData(key);
+            return result.data;
           }
           if (status === 'failed') {
-            throw new Error(`Dependency "${key}" failed during execution`);
+            const outcome = processOutcomes.get(targetFile);
+            throw new DependencyProcessError(
+              `Dependency "${key}" failed during execution: ${result.error?.message ?? 'unknown error'}`,
+              outcome?.exitCode ?? null,
+              outcome?.stderr ?? ''
+            );
           }
         }
       }
@@ -256,128 +267,299 @@ export async function executeDependency(
     );
   }
   
-  return executeTestFunction(dep.fullKey, testFn);
+  return executeTestFunction(
+    dep.fullKey,
+    testFn,
+    getRetryPolicy(getRelayConfig(), dep),
+    getResultSource(currentFile, testTitle)
+  );
+}
+
+/**
+ * Execute every test a pattern dependency matches and return their data keyed by test key.
+ * Tests already in the store (e.g. loop-generated tests with dynamic titles) count as matches.
+ */
+async function executePatternDependency(
+  dep: DependencyDefinition,
+  currentFile: string
+): Promise<Map<string, unknown>> {
+  const sourceFile = dep.file ? resolveFilePath(currentFile, dep.file) : currentFile;
+  const titles = fs.existsSync(sourceFile)
+    ? discoverTestsInFile(sourceFile)
+        .filter(t => !t.dynamic && dep.pattern!.test(t.title))
+        .map(t => t.title)
+    : [];
+  
+  await forEachConcurrent(titles, getRelayConfig().maxConcurrentDependencies, async title => {
+    await executeDependency(parseDependsValue(dep.file ? `${dep.file} > ${title}` : title), currentFile);
+  });
+  
+  const matched = resultStore.match(key => matchesDependency(dep, key));
+  if (matched.size === 0) {
+    throw new Error(`Dependency pattern "${dep.fullKey}" did not match any test.`);
+  }
+  
+  const results = new Map<string, unknown>();
+  for (const [key, result] of matched) {
+    if (result.status === 'failed') {
+      throw new Error(`Dependency "${key}" matched by "${dep.fullKey}" failed`);
+    }
+    results.set(key, result.data);
+  }
+  return results;
 }
 
 /**
  * Execute a specific test from a file via Playwright subprocess
  * This ensures proper Playwright context (page, fixtures, etc.)
  */
-async function executeFileViaPlaywright(
+function executeFileViaPlaywright(
   filePath: string,
-  testTitle?: string
+  testTitle?: string,
+  retries = 0
 ): Promise<void> {
-  // Skip if already executed this file
+  // Share a run that is already in progress or done
   const fileKey = testTitle ? `${filePath}:${testTitle}` : filePath;
-  if (executedFiles.has(fileKey)) {
-    return;
-  }
+  const existing = fileExecutions.get(fileKey);
+  if (existing) return existing;
   
-  executedFiles.add(fileKey);
+  const execution = (async () => {
+    // First, check if the target test has its own dependencies and execute them
+    const testDeps = testTitle ? parseTestFile(filePath).get(testTitle) ?? [] : [];
+    await forEachConcurrent(testDeps, getRelayConfig().maxConcurrentDependencies, async dep => {
+      await executeDependency(dep, filePath);
+    });
+    
+    const locations = testTitle ? locateTests(filePath, testTitle) : [];
+    await runPlaywrightTests({
+      files: [filePath],
+      locations,
+      // A title built at runtime has no location in the source
+      titles: testTitle && locations.length === 0 ? [testTitle] : [],
+    }, retries);
+  })();
   
-  // First, check if the target test has its own dependencies and execute them
-  const fileDeps = parseTestFile(filePath);
-  const testDeps = testTitle ? fileDeps.get(testTitle) : undefined;
+  fileExecutions.set(fileKey, execution);
+  // Allow a later attempt to run the file again
+  execution.catch(() => fileExecutions.delete(fileKey));
+  return execution;
+}
+
+/**
+ * Tests a Playwright subprocess runs: those declared at `locations`, else those with one
+ * of `titles`, else every test of `files`
+ */
+interface TestSelection {
+  files: string[];
+  locations?: SourceLocation[];
+  titles?: string[];
+}
+
+/**
+ * Locations of the tests called `title` in `filePath`, either their own title or prefixed
+ * with their describe titles. Empty when no test in the source has the title.
+ */
+function locateTests(filePath: string, title: string): SourceLocation[] {
+  return discoverTestsInFile(filePath)
+    .filter(test => !test.dynamic &&
+      (test.title === title || [...test.describePath, test.title].join(' > ') === title))
+    .map(test => test.location);
+}
+
+/**
+ * Run tests of one or more files in a Playwright subprocess and store their results.
+ * Retries are left to Playwright and happen without the backoff delay.
+ */
+async function runPlaywrightTests(selection: TestSelection, retries: number): Promise<void> {
+  const { files, locations = [], titles = [] } = selection;
+  const { dependencyTimeout, debug } = getRelayConfig();
+  const cwd = findProjectRoot(files[0]);
+  const runDir = createRunDir();
+  const reportFile = path.join(runDir, 'report.json');
+  const args = [
+    'test',
+    // "file:line" selects the test declared on that line of the file and nothing else
+    ...(locations.length > 0 ? locations.map(location => `${location.file}:${location.line}`) : files),
+    ...(locations.length === 0 && titles.length > 0 ? ['--grep', getTitleGrep(titles)] : []),
+    ...getRunContextArgs(),
+    // Without dependency retries the project's own retries apply
+    ...(retries > 0 ? ['--retries', String(retries)] : []),
+    // The JSON report goes to a file, leaving stdout for the list reporter when debugging
+    `--reporter=${debug ? 'json,list' : 'json'}`,
+  ];
   
-  if (testDeps && testDeps.length > 0) {
-    for (const dep of testDeps) {
-      await executeDependency(dep, filePath);
-    }
-  }
+  // The child starts from the results of this process, so it does not run them again
+  resultStore.exportToFile(getRunStorePath(runDir));
   
   try {
-    // Build the playwright command
-    const grepArg = testTitle ? `--grep "${escapeRegex(testTitle)}"` : '';
-    const command = `npx playwright test "${filePath}" ${grepArg} --reporter=json 2>/dev/null || true`;
-    
-    // Execute Playwright in subprocess
-    const output = execSync(command, {
-      cwd: findProjectRoot(filePath),
-      encoding: 'utf-8',
-      timeout: 60000,
+    const { exitCode, stderr } = await runLimited(getRelayConfig().maxConcurrentDependencies, () => runPlaywright(args, {
+      cwd,
+      timeout: dependencyTimeout,
+      debug,
       env: {
         ...process.env,
-        // Pass shared state location if using file-based persistence
         PLAYWRIGHT_RELAY_SUBPROCESS: 'true',
+        PLAYWRIGHT_RELAY_RUN_DIR: runDir,
+        PLAYWRIGHT_JSON_OUTPUT_FILE: reportFile,
+        PLAYWRIGHT_JSON_OUTPUT_NAME: reportFile,
       },
-    });
+    }));
     
-    // Try to parse JSON output to get test results
-    try {
-      const jsonStart = output.indexOf('{');
-      if (jsonStart >= 0) {
-        const result = JSON.parse(output.substring(jsonStart));
-        processPlaywrightResults(result, filePath);
-      }
-    } catch {
-      // JSON parsing failed, test might have passed without structured output
-      // The results should be in shared store if using file persistence
+    for (const file of files) {
+      processOutcomes.set(file, { exitCode, stderr });
     }
-  } catch (error) {
-    const err = error as Error;
-    console.warn(`Failed to execute dependency file ${filePath}: ${err.message}`);
+    
+    // A failing test still produces a report; its status is stored like any other result
+    const report = readJsonReport(reportFile);
+    if (!report) {
+      throw new DependencyProcessError(
+        `Playwright exited with code ${exitCode} without reporting results for ${files.join(', ')}`,
+        exitCode,
+        stderr
+      );
+    }
+    // Results the child stored under its own keys, then the report's final statuses
+    resultStore.importFromFile(getRunStorePath(runDir));
+    processPlaywrightResults(report, files);
+  } finally {
+    removeRunDir(runDir);
   }
 }
 
 /**
- * Process Playwright JSON reporter output and store results
+ * Pattern for `--grep` that matches tests whose title path ends with one of the titles, save for
+ * tags. Playwright greps "project file describe... title @tags", so a test whose title ends with
+ * a whole word of another ("store session" for "session") matches as well; it is only used for
+ * titles that can't be located in the source.
  */
-function processPlaywrightResults(result: any, filePath: string): void {
-  if (!result.suites) return;
-  
-  const processSpecs = (specs: any[]) => {
-    for (const spec of specs) {
-      if (spec.tests) {
-        for (const test of spec.tests) {
-          const title = spec.title;
-          const status = test.status === 'expected' || test.status === 'passed' 
-            ? 'passed' 
-            : test.status === 'skipped' ? 'skipped' : 'failed';
-          
-          // Store under multiple keys for flexible lookup
-          const fileName = path.basename(filePath);
-          resultStore.set(title, status);
-          resultStore.set(`${fileName} > ${title}`, status);
-        }
-      }
-      
-      if (spec.suites) {
-        processSpecs(spec.suites);
-      }
-      if (spec.specs) {
-        processSpecs(spec.specs);
-      }
-    }
-  };
-  
-  processSpecs(result.suites);
+function getTitleGrep(titles: string[]): string {
+  return titles.map(title => `(?:(?:^|\\s)${escapeRegex(title)}(?:\\s@\\S+)*$)`).join('|');
+}
+
+function getRunContextArgs(): string[] {
+  const { configFile, projectName, headed, timeout } = runContext;
+  return [
+    ...(configFile ? ['--config', configFile] : []),
+    ...(projectName ? ['--project', projectName] : []),
+    ...(headed ? ['--headed'] : []),
+    ...(timeout !== undefined ? ['--timeout', String(timeout)] : []),
+  ];
+}
+
+function readJsonReport(reportFile: string): JSONReport | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(reportFile, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Command that starts the Playwright CLI of the project: Node with the resolved
+ * `@playwright/test` CLI script, falling back to `npx playwright`.
+ */
+function resolvePlaywrightCommand(cwd: string): string[] {
+  try {
+    const cli = createRequire(path.join(cwd, 'package.json')).resolve('@playwright/test/cli');
+    return [process.execPath, cli];
+  } catch {
+    return [process.platform === 'win32' ? 'npx.cmd' : 'npx', 'playwright'];
+  }
+}
+
+interface PlaywrightRunOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeout: number;
+  /** Stream the child's output to this process */
+  debug: boolean;
 }
 
 /**
- * Find project root by looking for package.json or playwright.config
+ * Run the Playwright CLI without a shell and without blocking the event loop.
+ * Resolves with the exit code once the process ends; rejects when it cannot start
+ * or does not finish within the timeout.
  */
-function findProjectRoot(startPath: string): string {
-  let current = path.dirname(startPath);
+function runPlaywright(
+  args: string[],
+  options: PlaywrightRunOptions
+): Promise<{ exitCode: number | null; stderr: string }> {
+  const [command, ...commandArgs] = resolvePlaywrightCommand(options.cwd);
   
-  while (current !== path.dirname(current)) {
-    if (
-      fs.existsSync(path.join(current, 'package.json')) ||
-      fs.existsSync(path.join(current, 'playwright.config.ts')) ||
-      fs.existsSync(path.join(current, 'playwright.config.js'))
-    ) {
-      return current;
-    }
-    current = path.dirname(current);
+  if (options.debug) {
+    console.log(`[playwright-relay] ${[command, ...commandArgs, ...args].join(' ')}`);
   }
   
-  return path.dirname(startPath);
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, [...commandArgs, ...args], {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    
+    let stderr = '';
+    let timedOut = false;
+    
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, options.timeout);
+    
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (options.debug) process.stdout.write(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Keep the tail: the end of stderr usually explains the failure
+      stderr = (stderr + chunk.toString()).slice(-MAX_CAPTURED_STDERR);
+      if (options.debug) process.stderr.write(chunk);
+    });
+    
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new DependencyProcessError(`Failed to start Playwright: ${error.message}`, null, stderr));
+    });
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new DependencyProcessError(
+          `Playwright did not finish within ${options.timeout}ms (dependencyTimeout)`,
+          exitCode,
+          stderr
+        ));
+        return;
+      }
+      resolve({ exitCode, stderr });
+    });
+  });
 }
 
 /**
- * Escape special regex characters in a string
+ * Store the results of a Playwright JSON report under the keys the relay fixture uses:
+ * the describe title path, the plain title, and both prefixed with the file name
+ * and with the file's path from the project root.
+ * Report files are relative to the Playwright root; `files` are the absolute paths that ran.
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function processPlaywrightResults(report: JSONReport, files: string[]): void {
+  for (const test of readReportedTests(report)) {
+    const fileName = path.basename(test.file);
+    const testKey = test.titlePath.join(' > ');
+    const title = test.titlePath[test.titlePath.length - 1];
+    const keys = new Set([testKey, title, `${fileName} > ${testKey}`, `${fileName} > ${title}`]);
+    const file = files.find(f => f === test.file || f.endsWith(`${path.sep}${test.file}`));
+    const source = file ? getResultSource(file, testKey) : undefined;
+    if (file) {
+      keys.add(getPathKey(file, testKey));
+      keys.add(getPathKey(file, title));
+    }
+    
+    for (const key of keys) {
+      resultStore.set(key, test.status, test.data, test.error, {
+        duration: test.duration,
+        attempts: test.attempts,
+        source,
+      });
+    }
+  }
 }
 
 /**
@@ -385,7 +567,9 @@ function escapeRegex(str: string): string {
  */
 async function executeTestFunction(
   key: string,
-  fn: () => Promise<unknown>
+  fn: InProcessTest,
+  retryPolicy: RetryPolicy,
+  source?: ResultSource
 ): Promise<unknown> {
   // Check for pending execution
   const pending = resultStore.getPending(key);
@@ -396,12 +580,16 @@ async function executeTestFunction(
   
   const promise = (async () => {
     try {
-      const result = await fn();
-      resultStore.set(key, 'passed', result);
-      return result;
-    } catch (error) {
-      resultStore.set(key, 'failed', undefined, error as Error);
-      throw error;
+      const { dependencyTimeout } = getRelayConfig();
+      const outcome = await runWithRetries(() => runWithTimeout(key, dependencyTimeout, fn), retryPolicy);
+      const duration = outcome.attempts.reduce((total, attempt) => total + attempt.duration, 0);
+      
+      if (outcome.status === 'failed') {
+        resultStore.set(key, 'failed', undefined, outcome.error as Error, { duration, attempts: outcome.attempts, source });
+        throw outcome.error;
+      }
+      resultStore.set(key, 'passed', outcome.result, undefined, { duration, attempts: outcome.attempts, source });
+      return outcome.result;
     } finally {
       resultStore.removePending(key);
     }
@@ -416,7 +604,9 @@ async function executeTestFunction(
  */
 export function clearModuleCache(): void {
   moduleCache.clear();
-  executedFiles.clear();
+  fileExecutions.clear();
+  processOutcomes.clear();
+  runContext = {};
 }
 
 /**
@@ -426,7 +616,120 @@ export async function executeAllDependencies(
   deps: DependencyDefinition[],
   currentFile: string
 ): Promise<void> {
+  await executeCrossFileClosure(deps, currentFile);
+  
+  // Independent dependencies run side by side; shared ones run once through the store's pending executions
+  await forEachConcurrent(deps, getRelayConfig().maxConcurrentDependencies, async dep => {
+    try {
+      await executeDependency(dep, currentFile);
+    } catch (error) {
+      // Optional dependencies are attempted but never block the dependent
+      if (dep.optional) return;
+      if (error instanceof Error && dep.location) {
+        throw new Error(`${error.message}${declaredAt(dep)}`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Collect the files a set of files references through cross-file dependencies, transitively.
+ */
+function collectReferencedFiles(startFiles: string[]): string[] {
+  const files = new Set(startFiles);
+  
+  // A Set visits entries added during iteration
+  for (const file of files) {
+    for (const test of discoverTestsInFile(file)) {
+      for (const dep of test.dependencies) {
+        if (!dep.file) continue;
+        const targetFile = resolveFilePath(file, dep.file);
+        if (fs.existsSync(targetFile)) files.add(targetFile);
+      }
+    }
+  }
+  
+  return [...files];
+}
+
+function hasSettledResult(test: TestInfo, maxAge?: number): boolean {
+  const status = resultStore.getStatus(getPathKey(test.location!.file!, test.title), { maxAge });
+  return status === 'passed' || status === 'failed' || status === 'skipped';
+}
+
+/**
+ * Run the cross-file dependencies of a test, and everything they depend on, in as few
+ * Playwright processes as possible.
+ *
+ * The closure is taken from the dependency graph of the referenced files. Tests without a result
+ * are grouped into waves where each test only depends on earlier waves; every wave runs as one
+ * subprocess over all of its files. Results land in the store, where each dependent picks them up.
+ */
+async function executeCrossFileClosure(deps: DependencyDefinition[], currentFile: string): Promise<void> {
+  const targetFiles = new Map<DependencyDefinition, string>();
   for (const dep of deps) {
-    await executeDependency(dep, currentFile);
+    // Data dependencies without a known producer have no test to run
+    if (!dep.file || (dep.dataName && dep.testTitle === dataKey(dep.dataName))) continue;
+    const targetFile = resolveFilePath(currentFile, dep.file);
+    if (fs.existsSync(targetFile)) targetFiles.set(dep, targetFile);
+  }
+  if (targetFiles.size === 0) return;
+  
+  let graph: DependencyGraph;
+  try {
+    graph = buildGraphFromFiles(collectReferencedFiles([...new Set(targetFiles.values())]));
+  } catch {
+    // Ambiguous references are reported when each dependency runs on its own
+    return;
+  }
+  const tests = graph.getAllTestIds().map(id => graph.getTest(id)!);
+  
+  // Dependencies come before their dependents in execution order
+  const pending = new Set<string>();
+  const retriesOf = new Map<string, number>();
+  for (const [dep, targetFile] of targetFiles) {
+    const roots = tests.filter(test =>
+      test.location?.file === targetFile &&
+      (dep.pattern ? dep.pattern.test(test.title) : test.title === dep.testTitle)
+    );
+    for (const root of roots) {
+      const retries = getRetryPolicy(getRelayConfig(), dep).retries;
+      retriesOf.set(root.id, Math.max(retriesOf.get(root.id) ?? 0, retries));
+      for (const id of graph.getExecutionOrder(root.id)) {
+        const test = graph.getTest(id)!;
+        // The dependency's own TTL applies to the test it names
+        const maxAge = id === root.id ? dep.ttl : undefined;
+        if (!test.dynamic && test.location?.file && !hasSettledResult(test, maxAge)) pending.add(id);
+      }
+    }
+  }
+  
+  const waves: TestInfo[][] = [];
+  const waveOf = new Map<string, number>();
+  for (const id of pending) {
+    const wave = Math.max(-1, ...graph.getDependencies(id).map(depId => waveOf.get(depId) ?? -1)) + 1;
+    waveOf.set(id, wave);
+    (waves[wave] ??= []).push(graph.getTest(id)!);
+  }
+  
+  for (const wave of waves) {
+    const files = [...new Set(wave.map(test => test.location!.file!))];
+    // Each test is selected by its location, so same titles in other files of the wave don't run
+    const locations = wave.map(test => test.location!);
+    // Playwright applies one retry count to the whole run
+    const retries = Math.max(getRelayConfig().dependencyRetries, ...wave.map(test => retriesOf.get(test.id) ?? 0));
+    try {
+      await runPlaywrightTests({ files, locations }, retries);
+    } catch {
+      // Later waves need this one; each dependency runs again on its own, where a failure
+      // of an optional dependency is ignored and a required one reports its own error
+      return;
+    }
+    
+    for (const test of wave) {
+      fileExecutions.set(`${test.location!.file}:${test.title}`, Promise.resolve());
+    }
   }
 }
+
@@ -0,0 +1,96 @@
+/**
+ * Fingerprints of test sources, to tell when a stored result is out of date
+ * @module fingerprint
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { discoverTestsInFile, findDataProviders, resolveFilePath } from './parser.js';
+import type { DependencyDefinition, DiscoveredTest, ResultSource } from './types.js';
+
+/** Tests discovered per file, with the contents they were discovered in */
+const discovered = new Map<string, { content: string; tests: DiscoveredTest[] }>();
+
+/** Tests of a file, parsed again only when its contents changed; empty when it doesn't exist */
+function getTests(filePath: string): DiscoveredTest[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const cached = discovered.get(filePath);
+  if (cached?.content === content) return cached.tests;
+
+  let tests: DiscoveredTest[];
+  try {
+    tests = discoverTestsInFile(filePath);
+  } catch {
+    tests = [];
+  }
+  discovered.set(filePath, { content, tests });
+  return tests;
+}
+
+/** The test called `title`, either its own title or prefixed with its describe titles */
+function findTest(tests: DiscoveredTest[], title: string): DiscoveredTest | undefined {
+  return tests.find(test => [...test.describePath, test.title].join(' > ') === title)
+    ?? tests.find(test => test.title === title);
+}
+
+/** Tests a dependency of a test in `filePath` refers to, with their files */
+function resolveProducers(filePath: string, dep: DependencyDefinition): [string, DiscoveredTest][] {
+  const targetFile = dep.file ? resolveFilePath(filePath, dep.file) : filePath;
+  const tests = getTests(targetFile);
+  const producers = dep.dataName
+    ? findDataProviders(dep, tests)
+    : tests.filter(test => dep.pattern ? dep.pattern.test(test.title) : test.title === dep.testTitle);
+  return producers.map(test => [targetFile, test]);
+}
+
+/**
+ * Hash of a test's source and, recursively, of the tests it depends on.
+ * A test on a dependency cycle contributes its own source once.
+ */
+function fingerprint(filePath: string, test: DiscoveredTest, visiting: Set<string>): string {
+  const id = `${filePath} > ${[...test.describePath, test.title].join(' > ')}`;
+  const hash = crypto.createHash('sha256').update(test.sourceHash);
+  if (visiting.has(id)) return hash.digest('hex');
+
+  visiting.add(id);
+  for (const dep of test.dependencies) {
+    // Declared dependencies count even when they can't be resolved to a test
+    hash.update(`\0${dep.fullKey}`);
+    const producers = resolveProducers(filePath, dep)
+      .map(([file, producer]) => fingerprint(file, producer, visiting))
+      .sort();
+    for (const producer of producers) hash.update(`\0${producer}`);
+  }
+  visiting.delete(id);
+
+  return hash.digest('hex');
+}
+
+/**
+ * Source of a result of the test called `title` in `filePath`, with the fingerprint
+ * of its current source. Undefined when the test can't be found in the file.
+ */
+export function getResultSource(filePath: string, title: string): ResultSource | undefined {
+  const test = findTest(getTests(filePath), title);
+  if (!test) return undefined;
+  return { file: filePath, title, hash: fingerprint(filePath, test, new Set()) };
+}
+
+/**
+ * Whether the test a result was produced by, and every test it depends on,
+ * still has the source it had when the result was stored.
+ */
+export function isSourceCurrent(source: ResultSource): boolean {
+  return getResultSource(source.file, source.title)?.hash === source.hash;
+}
+
+/** Forget parsed test files. Useful for testing. */
+export function clearFingerprintCache(): void {
+  discovered.clear();
+}
@@ -0,0 +1,196 @@
+/**
+ * Fixtures for dependencies executed on demand
+ * @module fixtures
+ */
+
+import ts from 'typescript';
+import type { DependencyFixture, DependencyFixtureInfo, DependencyFixtureOptions, DependencyFixtures } from './types.js';
+import { abortable } from './timeout.js';
+
+// Browser context options that can be set through `use`
+const CONTEXT_OPTIONS = [
+  'acceptDownloads', 'baseURL', 'bypassCSP', 'colorScheme', 'deviceScaleFactor', 'extraHTTPHeaders',
+  'geolocation', 'hasTouch', 'httpCredentials', 'ignoreHTTPSErrors', 'isMobile', 'javaScriptEnabled',
+  'locale', 'offline', 'permissions', 'proxy', 'serviceWorkers', 'storageState', 'timezoneId',
+  'userAgent', 'viewport',
+];
+// API request context options that can be set through `use`
+const REQUEST_OPTIONS = [
+  'baseURL', 'extraHTTPHeaders', 'httpCredentials', 'ignoreHTTPSErrors', 'proxy', 'storageState', 'userAgent',
+];
+
+function pickOptions(use: DependencyFixtureOptions, names: string[]): Record<string, unknown> {
+  return Object.fromEntries(names.filter(name => use[name] !== undefined).map(name => [name, use[name]]));
+}
+
+const builtinFixtures: Record<string, DependencyFixture> = {
+  browser: async (_fixtures, use, info) => {
+    const playwright = await import('@playwright/test');
+    const browserType = playwright[info.use.browserName ?? 'chromium'];
+    const browser = await browserType.launch({
+      headless: info.use.headless ?? true,
+      ...(info.use.channel && { channel: info.use.channel }),
+      ...info.use.launchOptions,
+    });
+    await use(browser);
+    await browser.close();
+  },
+  context: async ({ browser }, use, info) => {
+    const context = await browser.newContext({
+      ...pickOptions(info.use, CONTEXT_OPTIONS),
+      ...info.use.contextOptions,
+    });
+    await use(context);
+    await context.close();
+  },
+  page: async ({ context }, use) => {
+    await use(await context.newPage());
+  },
+  request: async (_fixtures, use, info) => {
+    const { request } = await import('@playwright/test');
+    const context = await request.newContext(pickOptions(info.use, REQUEST_OPTIONS));
+    await use(context);
+    await context.dispose();
+  },
+};
+
+const customFixtures = new Map<string, DependencyFixture>();
+let projectUse: DependencyFixtureOptions = {};
+
+/**
+ * Register a fixture for dependencies run on demand.
+ * Custom fixtures take precedence over the built-in `browser`, `context`, `page` and `request`.
+ */
+export function registerDependencyFixture<T, F extends Record<string, unknown> = DependencyFixtures>(
+  name: string,
+  fixture: DependencyFixture<T, F>
+): void {
+  // Fixtures are passed by the names the factory destructures, which its type can't be checked against
+  customFixtures.set(name, fixture as DependencyFixture);
+}
+
+/** Remove all custom dependency fixtures. Useful for testing. */
+export function clearDependencyFixtures(): void {
+  customFixtures.clear();
+}
+
+/** Set the `use` options built-in fixtures are configured from. Called by the relay fixture. */
+export function setDependencyFixtureOptions(use: DependencyFixtureOptions): void {
+  projectUse = use;
+}
+
+/**
+ * Names of the fixtures a test or fixture function destructures from its first parameter.
+ * Returns an empty list when the parameter is not an object pattern.
+ */
+export function getFixtureNames(fn: (...args: never[]) => unknown): string[] {
+  const sourceFile = ts.createSourceFile('fixture.ts', `(${fn.toString()})`, ts.ScriptTarget.Latest, true);
+  const statement = sourceFile.statements[0];
+  if (!statement || !ts.isExpressionStatement(statement)) return [];
+
+  let expression = statement.expression;
+  while (ts.isParenthesizedExpression(expression)) expression = expression.expression;
+  if (!ts.isArrowFunction(expression) && !ts.isFunctionExpression(expression)) return [];
+
+  const pattern = expression.parameters[0]?.name;
+  if (!pattern || !ts.isObjectBindingPattern(pattern)) return [];
+
+  return pattern.elements
+    .filter(element => !element.dotDotDotToken)
+    .map(element => (element.propertyName ?? element.name).getText(sourceFile));
+}
+
+interface FixtureInstance {
+  value: unknown;
+  teardown: () => Promise<void>;
+}
+
+/**
+ * Run a fixture factory until it hands its value to `use`.
+ * Teardown resumes the factory and waits for it to finish.
+ */
+async function setUpFixture(
+  name: string,
+  fixture: DependencyFixture,
+  fixtures: Record<string, unknown>,
+  info: DependencyFixtureInfo
+): Promise<FixtureInstance> {
+  let release!: () => void;
+  const released = new Promise<void>(resolve => { release = resolve; });
+  let provide!: (value: unknown) => void;
+  const provided = new Promise<unknown>(resolve => { provide = resolve; });
+
+  const done = Promise.resolve().then(() => fixture(fixtures as DependencyFixtures, async value => {
+    provide(value);
+    await released;
+  }, info));
+
+  const value = await Promise.race([
+    provided,
+    done.then(() => {
+      throw new Error(`Fixture "${name}" finished without calling use()`);
+    }),
+  ]);
+
+  return {
+    value,
+    teardown: async () => {
+      release();
+      await done;
+    },
+  };
+}
+
+/**
+ * Call a test function with the fixtures it destructures, then tear them down in reverse order.
+ * `provided` fixtures (such as `relay`) are passed as they are; `use` options are available as values.
+ * When `signal` aborts, the call rejects with its reason and fixtures are torn down right away.
+ */
+export async function runWithFixtures<T>(
+  fn: (fixtures: DependencyFixtures) => T | Promise<T>,
+  info: Omit<DependencyFixtureInfo, 'use'>,
+  provided: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<T> {
+  const fixtureInfo: DependencyFixtureInfo = { ...info, use: projectUse };
+  const values = new Map<string, unknown>(Object.entries(provided));
+  const instances: FixtureInstance[] = [];
+
+  const resolve = async (name: string, requiredBy: string[]): Promise<unknown> => {
+    if (values.has(name)) return values.get(name);
+    if (requiredBy.includes(name)) {
+      throw new Error(`Fixtures "${[...requiredBy, name].join('" -> "')}" depend on each other`);
+    }
+
+    const fixture = customFixtures.get(name) ?? builtinFixtures[name];
+    if (!fixture) {
+      if (name in projectUse) return projectUse[name];
+      throw new Error(
+        `Fixture "${name}" is not available when "${info.title}" runs in-process as a dependency. ` +
+        'Register it with registerDependencyFixture().'
+      );
+    }
+
+    const dependencies: Record<string, unknown> = {};
+    for (const dependency of getFixtureNames(fixture)) {
+      dependencies[dependency] = await resolve(dependency, [...requiredBy, name]);
+    }
+
+    const instance = await setUpFixture(name, fixture, dependencies, fixtureInfo);
+    instances.push(instance);
+    values.set(name, instance.value);
+    return instance.value;
+  };
+
+  try {
+    const fixtures: Record<string, unknown> = { ...provided };
+    for (const name of getFixtureNames(fn)) {
+      fixtures[name] = await resolve(name, []);
+    }
+    return await abortable(Promise.resolve().then(() => fn(fixtures as DependencyFixtures)), signal);
+  } finally {
+    for (const instance of instances.reverse()) {
+      await instance.teardown();
+    }
+  }
+}
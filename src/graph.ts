@@ -3,7 +3,8 @@
  * @module graph
  */
 
-import type { TestInfo } from './types.js';
+import type { TestInfo, DependencyEdge, DependencyDefinition, DataProviderIssue } from './types.js';
+import { findDataProviders } from './parser.js';
 
 export class CircularDependencyError extends Error {
   constructor(public readonly cycle: string[]) {
@@ -19,10 +20,26 @@ export class DependencyNotFoundError extends Error {
   }
 }
 
+export class AmbiguousDependencyError extends Error {
+  constructor(
+    public readonly testKey: string,
+    public readonly dependency: string,
+    public readonly candidates: string[]
+  ) {
+    super(
+      `Dependency "${dependency}" of test "${testKey}" matches several files: ${candidates.join(', ')}. ` +
+      'Use a relative or project-root path to pick one.'
+    );
+    this.name = 'AmbiguousDependencyError';
+  }
+}
+
 export class DependencyGraph {
   private readonly nodes = new Map<string, TestInfo>();
   private readonly edges = new Map<string, Set<string>>();
   private readonly reverseEdges = new Map<string, Set<string>>();
+  private readonly edgeInfo = new Map<string, DependencyEdge>();
+  private readonly dataIssues: DataProviderIssue[] = [];
 
   addTest(info: TestInfo): void {
     this.nodes.set(info.id, info);
@@ -30,7 +47,7 @@ export class DependencyGraph {
     this.reverseEdges.set(info.id, this.reverseEdges.get(info.id) ?? new Set());
   }
 
-  addDependency(from: string, to: string): void {
+  addDependency(from: string, to: string, options: Partial<DependencyEdge> = {}): void {
     const fromEdges = this.edges.get(from) ?? new Set();
     const toReverse = this.reverseEdges.get(to) ?? new Set();
 
@@ -39,6 +56,46 @@ export class DependencyGraph {
 
     this.edges.set(from, fromEdges);
     this.reverseEdges.set(to, toReverse);
+
+    // An edge stays optional only while every declaration of it is optional
+    const key = this.edgeKey(from, to);
+    const existing = this.edgeInfo.get(key);
+    const alias = options.alias ?? existing?.alias;
+    const location = existing?.location ?? options.location;
+    this.edgeInfo.set(key, {
+      optional: (existing?.optional ?? true) && (options.optional ?? false),
+      ...(alias && { alias }),
+      ...(location && { location }),
+    });
+  }
+
+  /**
+   * Link a `@depends-data` dependency to the one candidate test providing its data.
+   * Records an issue instead when several tests provide it, or none does and the dependency is required.
+   */
+  addDataDependency(from: string, dep: DependencyDefinition, candidates: TestInfo[]): void {
+    const producers = findDataProviders(dep, candidates);
+
+    if (producers.length === 1) {
+      this.addDependency(from, producers[0].id, { optional: dep.optional, alias: dep.alias, location: dep.location });
+    } else if (producers.length > 1 || !dep.optional) {
+      this.dataIssues.push({
+        testId: from,
+        dataName: dep.dataName!,
+        producers: producers.map(test => test.id),
+        ...(dep.location && { location: dep.location }),
+      });
+    }
+  }
+
+  /** Data names that could not be linked to exactly one producer */
+  getDataIssues(): DataProviderIssue[] {
+    return [...this.dataIssues];
+  }
+
+  /** Get metadata of the edge where `from` depends on `to` */
+  getEdge(from: string, to: string): DependencyEdge | undefined {
+    return this.edgeInfo.get(this.edgeKey(from, to));
   }
 
   getDependencies(testId: string): string[] {
@@ -132,6 +189,8 @@ export class DependencyGraph {
     this.nodes.clear();
     this.edges.clear();
     this.reverseEdges.clear();
+    this.edgeInfo.clear();
+    this.dataIssues.length = 0;
   }
 
   /**
@@ -163,7 +222,10 @@ export class DependencyGraph {
       for (const to of deps) {
         const toId = nodeIds.get(to);
         if (toId) {
-          lines.push(`  ${toId} --> ${fromId}`);
+          const edge = this.getEdge(from, to);
+          const arrow = edge?.optional ? '-.->' : '-->';
+          const label = edge?.alias ? `|${this.escapeLabel(edge.alias)}|` : '';
+          lines.push(`  ${toId} ${arrow}${label} ${fromId}`);
         }
       }
     }
@@ -183,13 +245,19 @@ export class DependencyGraph {
       if (!info) continue;
       
       const deps = this.getDependencies(id);
+      const label = info.dynamic ? `${info.title} (dynamic title)` : info.title;
       if (deps.length === 0) {
-        lines.push(`○ ${info.title}`);
+        lines.push(`○ ${label}`);
       } else {
         const depTitles = deps
-          .map(d => this.nodes.get(d)?.title ?? d)
+          .map(d => {
+            const edge = this.getEdge(id, d);
+            let title = this.nodes.get(d)?.title ?? d;
+            if (edge?.alias) title += ` as ${edge.alias}`;
+            return edge?.optional ? `${title} (optional)` : title;
+          })
           .join(', ');
-        lines.push(`● ${info.title}`);
+        lines.push(`● ${label}`);
         lines.push(`  └─ depends on: ${depTitles}`);
       }
     }
@@ -197,6 +265,10 @@ export class DependencyGraph {
     return lines.join('\n');
   }
 
+  private edgeKey(from: string, to: string): string {
+    return `${from}\u0000${to}`;
+  }
+
   private escapeLabel(label: string): string {
     return label
       .replace(/"/g, "'")
@@ -213,6 +285,12 @@ export class DependencyGraph {
 
     for (const test of tests) {
       for (const dep of test.dependencies) {
+        if (dep.dataName) {
+          const candidates = tests.filter(t => t.id !== test.id && (!dep.file || t.file === dep.file));
+          graph.addDataDependency(test.id, dep, candidates);
+          continue;
+        }
+
         let depId = dep.fullKey;
 
         if (!graph.hasTest(depId)) {
@@ -221,7 +299,19 @@ export class DependencyGraph {
         }
 
         if (graph.hasTest(depId)) {
-          graph.addDependency(test.id, depId);
+          graph.addDependency(test.id, depId, { optional: dep.optional, alias: dep.alias, location: dep.location });
+          continue;
+        }
+
+        // Pattern dependencies expand to every matching test
+        if (dep.pattern) {
+          for (const candidate of tests) {
+            if (candidate.id === test.id) continue;
+            if (dep.file && candidate.file !== dep.file) continue;
+            if (dep.pattern.test(candidate.title)) {
+              graph.addDependency(test.id, candidate.id, { optional: dep.optional, alias: dep.alias, location: dep.location });
+            }
+          }
         }
       }
     }
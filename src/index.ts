@@ -9,6 +9,8 @@ export type {
   RelayConfig,
   TestStatus,
   TestResult,
+  TestAttempt,
+  ResultSource,
   DependencyDefinition,
   TestInfo,
   RelayTestFn,
@@ -21,6 +23,18 @@ export type {
   LifecycleHookWithData,
   DependencyValidationResult,
   DependencyValidationError,
+  DiscoveredTest,
+  TestModifier,
+  SourceLocation,
+  DependencyEdge,
+  DataProviderIssue,
+  DependencyFixture,
+  DependencyFixtureInfo,
+  DependencyFixtureOptions,
+  DependencyFixtures,
+  RelaySerializer,
+  RelayStoreAdapter,
+  AsyncRelayStoreAdapter,
 } from './types.js';
 
 // Test extension
@@ -34,6 +48,7 @@ export {
   clearModuleCache,
   RelayFixtures,
 } from './test.js';
+export type { RelayTestDetails, RelayTestType } from './test.js';
 
 // Relay core
 export {
@@ -57,25 +72,48 @@ export {
 export {
   parseDependsAnnotations,
   parseDependsValue,
+  parseDataDependency,
+  parseProvidesAnnotations,
+  findDataProviders,
+  resolveDataDependency,
   parseTestSource,
   parseTestFile,
+  discoverTests,
+  discoverTestsInFile,
+  mergeDependencies,
+  matchesDependency,
   parseTestKey,
   generateTestKey,
   resolveFilePath,
+  findDependencyFiles,
+  findProjectRoot,
+  formatLocation,
+  setTestFileSuffixes,
+  DEFAULT_TEST_FILE_SUFFIXES,
 } from './parser.js';
 
+// Fixtures for dependencies run on demand
+export {
+  registerDependencyFixture,
+  clearDependencyFixtures,
+} from './fixtures.js';
+
 // Executor
 export {
   executeDependency,
   executeAllDependencies,
   loadTestsFromFile,
+  DependencyProcessError,
 } from './executor.js';
+export type { InProcessTest } from './executor.js';
+export { DependencyTimeoutError } from './timeout.js';
 
 // Graph
 export {
   DependencyGraph,
   CircularDependencyError,
   DependencyNotFoundError,
+  AmbiguousDependencyError,
   dependencyGraph,
 } from './graph.js';
 
@@ -89,4 +127,8 @@ export type { GraphOptions, GraphResult } from './visualize.js';
 
 // Store
 export { resultStore, ResultStore } from './store.js';
-export type { StoreInitOptions } from './store.js';
+export type { StoreInitOptions, ResultReadOptions } from './store.js';
+export { registerSerializer, clearSerializers } from './serializer.js';
+export { createMemoryAdapter, createFileAdapter, createDirectoryAdapter } from './adapters.js';
+export type { FileAdapterOptions } from './adapters.js';
+export { getResultSource, isSourceCurrent } from './fingerprint.js';
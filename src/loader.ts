@@ -0,0 +1,185 @@
+/**
+ * Spec module loader for in-process dependency execution
+ * @module loader
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import ts from 'typescript';
+
+/** Test callback collected from a spec module */
+export interface CollectedTest {
+  title: string;
+  /** Titles of the enclosing test.describe blocks, outermost first */
+  describePath: string[];
+  fn: (...args: unknown[]) => unknown;
+}
+
+// Packages whose `test` is replaced by the collector
+const TEST_PACKAGES = new Set(['@playwright/test', 'playwright/test']);
+const RELAY_PACKAGE = 'playwright-relay';
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  esModuleInterop: true,
+  jsx: ts.JsxEmit.ReactJSX,
+};
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/** Callable stand-in for Playwright's `test` or `test.describe`, with whatever properties a spec uses */
+interface TestCollector {
+  (...args: unknown[]): unknown;
+  [property: string]: unknown;
+}
+
+const noop = (): void => undefined;
+
+/**
+ * Wrap a function so that known properties resolve to `props`
+ * and any other property (hooks, `use`, `configure`, ...) to a no-op.
+ */
+function withProps(fn: AnyFunction, props: Record<string, unknown>): TestCollector {
+  return new Proxy(fn as TestCollector, {
+    get(target, prop) {
+      if (typeof prop === 'symbol' || prop === 'then') return undefined;
+      if (prop in props) return props[prop];
+      return prop in target ? Reflect.get(target, prop) : noop;
+    },
+  });
+}
+
+/**
+ * Create a stand-in for Playwright's `test` that records test callbacks instead of
+ * registering them. `describe` callbacks run immediately so nested tests are collected.
+ */
+function createTestCollector(tests: CollectedTest[]): TestCollector {
+  const describePath: string[] = [];
+
+  const declare: AnyFunction = (...args) => {
+    const [title] = args;
+    const fn = args[args.length - 1];
+    if (typeof title === 'string' && typeof fn === 'function' && args.length > 1) {
+      tests.push({ title, describePath: [...describePath], fn: fn as AnyFunction });
+    }
+  };
+
+  const describe: AnyFunction = (...args) => {
+    const callback = args[args.length - 1];
+    if (typeof callback !== 'function') return;
+
+    const title = typeof args[0] === 'string' && args.length > 1 ? args[0] : undefined;
+    if (title !== undefined) describePath.push(title);
+    try {
+      callback();
+    } finally {
+      if (title !== undefined) describePath.pop();
+    }
+  };
+
+  const modes = ['only', 'skip', 'fixme'];
+  const describeWithModes = (fn: AnyFunction): TestCollector =>
+    withProps(fn, Object.fromEntries(modes.map(mode => [mode, describe])));
+
+  const collector: TestCollector = withProps(declare, {
+    ...Object.fromEntries([...modes, 'fail', 'slow'].map(modifier => [modifier, declare])),
+    describe: withProps(describe, {
+      ...Object.fromEntries(modes.map(mode => [mode, describe])),
+      serial: describeWithModes(describe),
+      parallel: describeWithModes(describe),
+    }),
+    step: async (_title: string, body: () => unknown) => body(),
+    extend: () => collector,
+    info: () => {
+      throw new Error('test.info() is not available while running a dependency in-process');
+    },
+  });
+
+  return collector;
+}
+
+/**
+ * Resolve a relative or absolute import to a source file, trying TypeScript extensions
+ * and `index` files the way the Playwright loader does.
+ */
+function resolveSourceFile(specifier: string, fromFile: string): string | undefined {
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  // `./helpers.js` may refer to `./helpers.ts` in ESM-style TypeScript projects
+  const withoutJs = base.replace(/\.(m|c)?js$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map(ext => base + ext),
+    ...SOURCE_EXTENSIONS.map(ext => withoutJs + ext),
+    ...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+  ];
+
+  return candidates.find(candidate =>
+    SOURCE_EXTENSIONS.includes(path.extname(candidate)) &&
+    fs.existsSync(candidate) &&
+    fs.statSync(candidate).isFile()
+  );
+}
+
+/**
+ * Load a spec file as a real module and collect its test callbacks.
+ *
+ * The file and the local modules it imports are transpiled and run in a `vm` script,
+ * so imports, module-level helpers, constants and closures resolve as in a Playwright run.
+ * Packages are loaded with Node's `require`, except `test` from `@playwright/test`
+ * and `playwright-relay`, which is replaced by a collector. Hooks are not run.
+ */
+export function loadSpecModule(filePath: string): CollectedTest[] {
+  const tests: CollectedTest[] = [];
+  const collector = createTestCollector(tests);
+  const modules = new Map<string, { exports: unknown }>();
+
+  const createModuleRequire = (fromFile: string) => {
+    const nodeRequire = createRequire(fromFile);
+
+    return (specifier: string): unknown => {
+      if (TEST_PACKAGES.has(specifier)) {
+        return { ...(nodeRequire(specifier) as object), __esModule: true, default: collector, test: collector };
+      }
+      if (specifier === RELAY_PACKAGE) {
+        return {
+          ...(nodeRequire(specifier) as object),
+          __esModule: true,
+          test: collector,
+          relayTest: (title: string, fn: AnyFunction) => collector(title, fn),
+        };
+      }
+      if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        const sourceFile = resolveSourceFile(specifier, fromFile);
+        if (sourceFile) return loadModule(sourceFile);
+      }
+      return nodeRequire(specifier);
+    };
+  };
+
+  const loadModule = (file: string): unknown => {
+    const cached = modules.get(file);
+    if (cached) return cached.exports;
+
+    const module = { exports: {} };
+    modules.set(file, module);
+
+    const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+      fileName: file,
+      compilerOptions: COMPILER_OPTIONS,
+    });
+    const wrapper = vm.runInThisContext(
+      `(function (exports, require, module, __filename, __dirname) {${outputText}\n})`,
+      { filename: file }
+    );
+    wrapper(module.exports, createModuleRequire(file), module, file, path.dirname(file));
+
+    return module.exports;
+  };
+
+  loadModule(path.resolve(filePath));
+  return tests;
+}
@@ -0,0 +1,146 @@
+/**
+ * Cross-process file locking and atomic writes for store files
+ * @module lock
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** How long to wait for another process to release a lock (ms) */
+const LOCK_TIMEOUT = 10_000;
+/** Age after which a lock is assumed to be left behind by a crashed process (ms) */
+const STALE_LOCK_AGE = 30_000;
+/** Pause between attempts to take a held lock (ms) */
+const LOCK_RETRY_INTERVAL = 10;
+
+interface LockOwner {
+  pid: number;
+  createdAt: number;
+  /** Tells this lock apart from a later one, even one that reuses its inode */
+  token: string;
+}
+
+let tempFileCounter = 0;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Inode and contents of a lock file, which identify one lock; undefined when there is none */
+function getLockId(filePath: string): string | undefined {
+  try {
+    return `${fs.statSync(filePath).ino}:${fs.readFileSync(filePath, 'utf-8')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A lock is stale when it is older than STALE_LOCK_AGE or its owner no longer runs.
+ * Store operations are synchronous, so a lock owned by this very process was leaked.
+ */
+function isStaleLock(lockPath: string): boolean {
+  let owner: LockOwner;
+  try {
+    owner = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+  } catch {
+    // Gone, or its owner has not written it yet: only its age tells
+    try {
+      return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_AGE;
+    } catch {
+      return false;
+    }
+  }
+  return Date.now() - owner.createdAt > STALE_LOCK_AGE
+    || owner.pid === process.pid
+    || !isProcessAlive(owner.pid);
+}
+
+/**
+ * Remove the lock identified by `lockId` without removing a fresh one another process took in
+ * its place. The lock is renamed to a name of this process first, which only one of the processes
+ * removing it manages. If the renamed file is not the one to remove, it is put back.
+ */
+function removeLock(lockPath: string, lockId: string): void {
+  const claimedPath = `${lockPath}.${process.pid}.${tempFileCounter++}.stale`;
+  try {
+    fs.renameSync(lockPath, claimedPath);
+  } catch {
+    // Another process removed it first
+    return;
+  }
+  try {
+    if (getLockId(claimedPath) !== lockId) fs.linkSync(claimedPath, lockPath);
+  } catch {
+    // The lock was taken again meanwhile
+  } finally {
+    fs.rmSync(claimedPath, { force: true });
+  }
+}
+
+/**
+ * Run `fn` while holding `<filePath>.lock`, waiting for other processes to release it.
+ * Stale locks are removed; throws when the lock cannot be taken within LOCK_TIMEOUT.
+ * A lock another process took over meanwhile, having found this one stale, is left to it.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  let ownLockId: string;
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      const owner: LockOwner = { pid: process.pid, createdAt: Date.now(), token: crypto.randomUUID() };
+      const content = JSON.stringify(owner);
+      fs.writeSync(fd, content);
+      ownLockId = `${fs.fstatSync(fd).ino}:${content}`;
+      fs.closeSync(fd);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const lockId = getLockId(lockPath);
+      if (lockId !== undefined && isStaleLock(lockPath)) {
+        removeLock(lockPath, lockId);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out after ${LOCK_TIMEOUT}ms waiting for lock "${lockPath}"`);
+      }
+      sleepSync(LOCK_RETRY_INTERVAL);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    removeLock(lockPath, ownLockId);
+  }
+}
+
+/**
+ * Replace `filePath` with `content` by writing a temporary file next to it and renaming it,
+ * so readers see either the old or the new content, never a partial write.
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.${tempFileCounter++}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -3,122 +3,734 @@
  * @module parser
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { DependencyDefinition } from './types.js';
+import ts from 'typescript';
+import type { DependencyDefinition, DiscoveredTest, SourceLocation, TestModifier } from './types.js';
 
 // Match @depends only at start of line or after JSDoc asterisk/line comment (not in middle of text)
-// Supports: * @depends, // @depends, @depends at line start
-const DEPENDS_REGEX = /^\s*(?:\*|\/\/)?\s*@depends\s+(.+?)$/gm;
-const CROSS_FILE_REGEX = /^(.+\.spec\.[tj]s)\s*>\s*(.+)$/;
-const TEST_CALL_REGEX = /test\s*\(\s*(['"`])([^'"`]+)\1/g;
+// Supports: * @depends, // @depends, @depends at line start, and @depends? for optional deps
+// @depends-data names the data a dependency provides instead of its title
+const DEPENDS_REGEX = /^\s*(?:\*|\/\/)?\s*@depends(-data)?(\?)?\s+(.+?)$/gm;
+const PROVIDES_REGEX = /^\s*(?:\*|\/\/)?\s*@provides\s+(.+?)$/gm;
+/** Store key prefix for results published under a data name */
+const DATA_KEY_PREFIX = '@data:';
+const OPTIONAL_SUFFIX_REGEX = /\s*\(optional\)$/;
+// Trailing "{key: value, ...}" sets per-dependency options: "create user {retries: 2, ttl: 15m}"
+const OPTIONS_SUFFIX_REGEX = /\s*\{\s*(\w+\s*:\s*[^,{}]+?(?:\s*,\s*\w+\s*:\s*[^,{}]+?)*)\s*,?\s*\}$/;
+// Trailing "as <name>" gives the dependency a local alias
+const ALIAS_SUFFIX_REGEX = /^(.+?)\s+as\s+([A-Za-z_$][\w$]*)$/;
+// A title in double quotes is taken literally (no alias or pattern parsing)
+const QUOTED_TITLE_REGEX = /^"(.*)"$/;
+/** Suffixes that identify a test file in "file > title" references */
+export const DEFAULT_TEST_FILE_SUFFIXES = ['spec', 'test'].flatMap(kind =>
+  ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'].map(ext => `.${kind}.${ext}`)
+);
 
-export function parseDependsValue(value: string): DependencyDefinition {
-  const trimmed = value.trim();
-  const match = trimmed.match(CROSS_FILE_REGEX);
+let crossFileRegex = buildCrossFileRegex(DEFAULT_TEST_FILE_SUFFIXES);
+
+function buildCrossFileRegex(suffixes: string[]): RegExp {
+  return new RegExp(`^(.+(?:${suffixes.map(escapeRegex).join('|')}))\\s*>\\s*(.+)$`);
+}
+
+/**
+ * Configure which file suffixes mark the file part of a "file > title" reference.
+ * Called by setRelayConfig when `testFileSuffixes` is set.
+ */
+export function setTestFileSuffixes(suffixes: string[]): void {
+  crossFileRegex = buildCrossFileRegex(suffixes.length > 0 ? suffixes : DEFAULT_TEST_FILE_SUFFIXES);
+}
+// Matches regex dependencies: /^create (admin|editor)$/i
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a dependency title into a RegExp when it uses `*` wildcards or `/regex/` syntax.
+ * Invalid regular expressions are treated as plain titles.
+ */
+function parseTitlePattern(title: string): RegExp | undefined {
+  const regex = title.match(REGEX_PATTERN);
+  if (regex) {
+    try {
+      // Stateful flags would make repeated .test() calls unreliable
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    } catch {
+      return undefined;
+    }
+  }
 
-  if (match) {
-    return {
-      file: match[1].trim(),
-      testTitle: match[2].trim(),
-      fullKey: trimmed,
-    };
+  if (title.includes('*')) {
+    return new RegExp(`^${title.split('*').map(escapeRegex).join('.*')}$`);
   }
 
-  return { testTitle: trimmed, fullKey: trimmed };
+  return undefined;
 }
 
-export function parseDependsAnnotations(comment: string): DependencyDefinition[] {
+/**
+ * Parse the title part of a dependency: optional `as <alias>` suffix,
+ * literal `"quoted"` titles and patterns.
+ */
+function parseDependsTitle(value: string): { testTitle: string; alias?: string; pattern?: RegExp } {
+  const quoted = value.match(QUOTED_TITLE_REGEX);
+  if (quoted) return { testTitle: quoted[1] };
+
+  const aliased = value.match(ALIAS_SUFFIX_REGEX);
+  const rawTitle = aliased ? aliased[1].trim() : value;
+  const literal = rawTitle.match(QUOTED_TITLE_REGEX);
+  const testTitle = literal ? literal[1] : rawTitle;
+  const pattern = literal ? undefined : parseTitlePattern(testTitle);
+
+  return {
+    testTitle,
+    ...(aliased && { alias: aliased[2] }),
+    ...(pattern && { pattern }),
+  };
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse a duration such as "500ms", "30s", "15m", "2h" or "1d" into milliseconds.
+ * A number without unit is taken as milliseconds.
+ */
+function parseDuration(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2] ?? 'ms'] : undefined;
+}
+
+/**
+ * Parse the entries of a `{key: value}` options block.
+ * Unknown keys and invalid values are ignored.
+ */
+function parseDependsOptions(body: string): Pick<DependencyDefinition, 'retries' | 'ttl'> {
+  const options: Pick<DependencyDefinition, 'retries' | 'ttl'> = {};
+
+  for (const entry of body.split(',')) {
+    const [key, rawValue] = entry.split(':').map(part => part.trim());
+    if (key === 'retries' && /^\d+$/.test(rawValue)) {
+      options.retries = Number(rawValue);
+    }
+    if (key === 'ttl') {
+      const ttl = parseDuration(rawValue);
+      if (ttl !== undefined) options.ttl = ttl;
+    }
+  }
+
+  return options;
+}
+
+export function parseDependsValue(value: string): DependencyDefinition {
+  let trimmed = value.trim();
+  let optional = false;
+  let optionsBlock: RegExpMatchArray | null = null;
+  // The "(optional)" marker and the options block may follow the title in either order
+  for (;;) {
+    if (!optional && OPTIONAL_SUFFIX_REGEX.test(trimmed)) {
+      optional = true;
+      trimmed = trimmed.replace(OPTIONAL_SUFFIX_REGEX, '');
+      continue;
+    }
+    const block: RegExpMatchArray | null = optionsBlock ? null : trimmed.match(OPTIONS_SUFFIX_REGEX);
+    if (!block) break;
+    optionsBlock = block;
+    trimmed = trimmed.slice(0, block.index).trimEnd();
+  }
+  const options = optionsBlock ? parseDependsOptions(optionsBlock[1]) : {};
+
+  const match = trimmed.match(crossFileRegex);
+  const file = match?.[1].trim();
+  const { testTitle, alias, pattern } = parseDependsTitle(match ? match[2].trim() : trimmed);
+
+  return {
+    ...(file && { file }),
+    testTitle,
+    fullKey: file ? `${file} > ${testTitle}` : testTitle,
+    ...(pattern && { pattern }),
+    ...(optional && { optional }),
+    ...(alias && { alias }),
+    ...options,
+  };
+}
+
+/**
+ * Check whether a test key ("title" or "file > title") satisfies a dependency.
+ * Pattern dependencies match every title their pattern accepts.
+ */
+export function matchesDependency(dep: DependencyDefinition, key: string): boolean {
+  const { file, testTitle } = parseTestKey(key);
+  if (dep.file ? file !== dep.file : file !== undefined) return false;
+  return dep.pattern ? dep.pattern.test(testTitle) : testTitle === dep.testTitle;
+}
+
+/**
+ * Parse every `@depends` line of a comment.
+ * `locate` maps an offset in the comment to a source location recorded on each dependency.
+ */
+export function parseDependsAnnotations(
+  comment: string,
+  locate?: (offset: number) => SourceLocation
+): DependencyDefinition[] {
   const deps: DependencyDefinition[] = [];
   DEPENDS_REGEX.lastIndex = 0;
 
   let match: RegExpExecArray | null;
   while ((match = DEPENDS_REGEX.exec(comment)) !== null) {
-    const value = match[1].trim();
-    if (value) deps.push(parseDependsValue(value));
+    const value = match[3].trim();
+    if (!value) continue;
+
+    const dep = match[1] ? parseDataDependency(value) : parseDependsValue(value);
+    if (match[2]) dep.optional = true;
+    if (locate) dep.location = locate(match.index + match[0].indexOf('@depends'));
+    deps.push(dep);
   }
 
   return deps;
 }
 
-export function extractPrecedingComment(source: string, position: number): string | null {
-  const before = source.substring(0, position);
-  
-  // Find the LAST JSDoc comment before this position
-  // We need to find all JSDoc comments and get the last one that ends right before the test
-  const jsDocPattern = /\/\*\*[\s\S]*?\*\//g;
-  const lineCommentPattern = /(?:\/\/[^\n]*\n)+/g;
-  
-  let lastJsDoc: { match: string; endIndex: number } | null = null;
-  let lastLineComment: { match: string; endIndex: number } | null = null;
-  
-  // Find all JSDoc comments
-  let jsDocMatch: RegExpExecArray | null;
-  while ((jsDocMatch = jsDocPattern.exec(before)) !== null) {
-    lastJsDoc = { match: jsDocMatch[0], endIndex: jsDocMatch.index + jsDocMatch[0].length };
+/**
+ * Parse a `@depends-data` value: `name`, `file.spec.ts > name`, with optional `(optional)` suffix.
+ * The dependency is keyed by data name until it is resolved to its producer.
+ */
+export function parseDataDependency(value: string): DependencyDefinition {
+  const { file, testTitle: dataName, optional, alias, retries, ttl } = parseDependsValue(value);
+
+  return {
+    ...(file && { file }),
+    testTitle: dataName,
+    fullKey: file ? `${file} > ${dataKey(dataName)}` : dataKey(dataName),
+    dataName,
+    ...(optional && { optional }),
+    alias: alias ?? dataName,
+    ...(retries !== undefined && { retries }),
+    ...(ttl !== undefined && { ttl }),
+  };
+}
+
+/** Store key under which the producer of a data name publishes its result */
+export function dataKey(dataName: string): string {
+  return `${DATA_KEY_PREFIX}${dataName}`;
+}
+
+/** Collect the data names declared with `@provides` (comma or space separated). */
+export function parseProvidesAnnotations(comment: string): string[] {
+  const names: string[] = [];
+  PROVIDES_REGEX.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = PROVIDES_REGEX.exec(comment)) !== null) {
+    names.push(...match[1].split(/[\s,]+/).filter(Boolean));
   }
-  
-  // Find all line comment blocks
-  let lineMatch: RegExpExecArray | null;
-  while ((lineMatch = lineCommentPattern.exec(before)) !== null) {
-    lastLineComment = { match: lineMatch[0], endIndex: lineMatch.index + lineMatch[0].length };
+
+  return names;
+}
+
+/**
+ * Tests among `candidates` that provide the data a `@depends-data` dependency needs.
+ */
+export function findDataProviders<T extends { title: string; provides?: string[] }>(
+  dep: DependencyDefinition,
+  candidates: T[]
+): T[] {
+  return dep.dataName ? candidates.filter(test => test.provides?.includes(dep.dataName!)) : [];
+}
+
+/**
+ * Turn a `@depends-data` dependency into a dependency on its producer's title
+ * when exactly one of `candidates` provides the data. The data name stays usable
+ * as an alias, so `relay.from('adminUser')` keeps working.
+ */
+export function resolveDataDependency(
+  dep: DependencyDefinition,
+  candidates: { title: string; provides?: string[] }[]
+): DependencyDefinition {
+  const producers = findDataProviders(dep, candidates);
+  if (producers.length !== 1) return dep;
+
+  const testTitle = producers[0].title;
+  return {
+    ...dep,
+    testTitle,
+    fullKey: dep.file ? `${dep.file} > ${testTitle}` : testTitle,
+  };
+}
+
+/**
+ * Read an `as <alias>` suffix as part of the title when no test among `titles` has the
+ * title without it but one has the literal title, e.g. a test named "log in as admin".
+ */
+export function resolveAliasedTitle(dep: DependencyDefinition, titles: Iterable<string>): DependencyDefinition {
+  if (!dep.alias || dep.pattern) return dep;
+
+  const known = new Set(titles);
+  const literalTitle = `${dep.testTitle} as ${dep.alias}`;
+  if (known.has(dep.testTitle) || !known.has(literalTitle)) return dep;
+
+  const resolved: DependencyDefinition = {
+    ...dep,
+    testTitle: literalTitle,
+    fullKey: dep.file ? `${dep.file} > ${literalTitle}` : literalTitle,
+  };
+  delete resolved.alias;
+  return resolved;
+}
+
+/**
+ * Point `@depends-data` dependencies at the test providing the data,
+ * looking in the named file or in the dependent's own file.
+ * Unresolved ones are looked up by data name in the store.
+ * A title ending in `as <word>` stays whole when only the whole title names a test.
+ */
+export function resolveDependencies(
+  deps: DependencyDefinition[],
+  filePath: string,
+  getTests: (filePath: string) => DiscoveredTest[] = discoverTestsInFile
+): DependencyDefinition[] {
+  return deps.map(dep => {
+    if (!(dep.dataName || dep.alias) || !filePath) return dep;
+    const sourceFile = dep.file ? resolveFilePath(filePath, dep.file) : filePath;
+    const candidates = getTests(sourceFile);
+    return dep.dataName
+      ? resolveDataDependency(dep, candidates)
+      : resolveAliasedTitle(dep, candidates.map(test => test.title));
+  });
+}
+
+/**
+ * Merge dependency lists, keeping the first occurrence of each fullKey.
+ * A dependency declared both as optional and required is required.
+ */
+export function mergeDependencies(...lists: DependencyDefinition[][]): DependencyDefinition[] {
+  const merged = new Map<string, DependencyDefinition>();
+
+  for (const dep of lists.flat()) {
+    const existing = merged.get(dep.fullKey);
+    if (!existing) {
+      merged.set(dep.fullKey, dep);
+    } else if (existing.optional && !dep.optional) {
+      const { optional: _optional, ...required } = existing;
+      merged.set(dep.fullKey, required);
+    }
   }
-  
-  // Check if the last comment is immediately before the test (only whitespace between)
-  const checkImmediatelyBefore = (comment: { match: string; endIndex: number } | null): string | null => {
-    if (!comment) return null;
-    const between = before.substring(comment.endIndex);
-    // Only whitespace should be between comment and test
-    if (/^\s*$/.test(between)) {
-      return comment.match;
+
+  return [...merged.values()];
+}
+
+/** Identifiers that declare tests when called */
+const TEST_FUNCTIONS = new Set(['test', 'relayTest']);
+const TEST_MODIFIERS = new Set<string>(['only', 'skip', 'fixme', 'fail']);
+const DESCRIBE_MODES = new Set(['serial', 'parallel']);
+
+interface TestCallee {
+  kind: 'test' | 'describe';
+  modifiers: TestModifier[];
+}
+
+/**
+ * Classify a call target such as `test`, `test.only` or `test.describe.serial.skip`.
+ * Returns null for anything that does not declare a test or a suite (e.g. `test.step`).
+ */
+function classifyCallee(expression: ts.Expression): TestCallee | null {
+  const names: string[] = [];
+  let current = expression;
+  while (ts.isPropertyAccessExpression(current)) {
+    names.unshift(current.name.text);
+    current = current.expression;
+  }
+  if (!ts.isIdentifier(current) || !TEST_FUNCTIONS.has(current.text)) return null;
+
+  const kind = names[0] === 'describe' ? 'describe' : 'test';
+  const modifiers: TestModifier[] = [];
+
+  for (const name of kind === 'describe' ? names.slice(1) : names) {
+    if (TEST_MODIFIERS.has(name)) {
+      modifiers.push(name as TestModifier);
+    } else if (kind !== 'describe' || !DESCRIBE_MODES.has(name)) {
+      return null;
+    }
+  }
+
+  return { kind, modifiers };
+}
+
+/** State inherited from enclosing describe blocks */
+interface DiscoveryScope {
+  describePath: string[];
+  modifiers: TestModifier[];
+  dependencies: DependencyDefinition[];
+}
+
+/** Test title as written in source; unresolved template parts are kept as `${expression}` */
+interface ResolvedTitle {
+  text: string;
+  dynamic: boolean;
+}
+
+const MAX_CONSTANT_DEPTH = 10;
+
+/**
+ * Map `const` names declared anywhere in the file to their initializers.
+ * Names declared more than once map to null since they cannot be resolved without scope analysis.
+ */
+function collectConstants(sourceFile: ts.SourceFile): Map<string, ts.Expression | null> {
+  const constants = new Map<string, ts.Expression | null>();
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      ts.isVariableDeclarationList(node.parent) &&
+      node.parent.flags & ts.NodeFlags.Const
+    ) {
+      const name = node.name.text;
+      constants.set(name, constants.has(name) ? null : node.initializer);
     }
-    return null;
+    ts.forEachChild(node, visit);
   };
-  
-  const jsDocResult = checkImmediatelyBefore(lastJsDoc);
-  const lineResult = checkImmediatelyBefore(lastLineComment);
-  
-  // Return the one that's closer to the test (higher endIndex)
-  if (jsDocResult && lineResult) {
-    return lastJsDoc!.endIndex > lastLineComment!.endIndex ? jsDocResult : lineResult;
+
+  visit(sourceFile);
+  return constants;
+}
+
+function resolveTitle(
+  node: ts.Expression,
+  constants: Map<string, ts.Expression | null>,
+  depth = 0
+): ResolvedTitle {
+  const dynamic = (): ResolvedTitle => ({ text: `\${${node.getText()}}`, dynamic: true });
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isNumericLiteral(node)) {
+    return { text: node.text, dynamic: false };
   }
-  
-  return jsDocResult ?? lineResult ?? null;
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return resolveTitle(node.expression, constants, depth);
+  }
+  if (ts.isTemplateExpression(node)) {
+    let text = node.head.text;
+    let isDynamic = false;
+    for (const span of node.templateSpans) {
+      const part = resolveTitle(span.expression, constants, depth);
+      text += part.text + span.literal.text;
+      isDynamic ||= part.dynamic;
+    }
+    return { text, dynamic: isDynamic };
+  }
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    const left = resolveTitle(node.left, constants, depth);
+    const right = resolveTitle(node.right, constants, depth);
+    return { text: left.text + right.text, dynamic: left.dynamic || right.dynamic };
+  }
+  if (ts.isIdentifier(node) && depth < MAX_CONSTANT_DEPTH) {
+    const initializer = constants.get(node.text);
+    if (initializer) {
+      const resolved = resolveTitle(initializer, constants, depth + 1);
+      if (!resolved.dynamic) return resolved;
+    }
+  }
+  return dynamic();
 }
 
-export function parseTestSource(source: string): Map<string, DependencyDefinition[]> {
-  const result = new Map<string, DependencyDefinition[]>();
-  TEST_CALL_REGEX.lastIndex = 0;
+function getTitleArgument(call: ts.CallExpression): ts.Expression | undefined {
+  const first = call.arguments[0];
+  if (!first || ts.isArrowFunction(first) || ts.isFunctionExpression(first)) return undefined;
+  return first;
+}
 
-  let match: RegExpExecArray | null;
-  while ((match = TEST_CALL_REGEX.exec(source)) !== null) {
-    const title = match[2];
-    const comment = extractPrecedingComment(source, match.index);
+function getCallback(call: ts.CallExpression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  const last = call.arguments[call.arguments.length - 1];
+  return last && (ts.isArrowFunction(last) || ts.isFunctionExpression(last)) ? last : undefined;
+}
 
-    if (comment) {
-      const deps = parseDependsAnnotations(comment);
-      if (deps.length > 0) result.set(title, deps);
+function getDetailsArgument(call: ts.CallExpression): ts.ObjectLiteralExpression | undefined {
+  const details = call.arguments.length === 3 ? call.arguments[1] : undefined;
+  return details && ts.isObjectLiteralExpression(details) ? details : undefined;
+}
+
+function getPropertyValue(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText() === name) {
+      return property.initializer;
     }
   }
+  return undefined;
+}
+
+function asElements(node: ts.Expression): readonly ts.Expression[] {
+  return ts.isArrayLiteralExpression(node) ? node.elements : [node];
+}
+
+/**
+ * Collect dependencies declared in the details argument of a test call:
+ * `{ depends: [...] }` and `{ annotation: { type: 'depends', description } }`.
+ * Values that cannot be resolved statically are ignored.
+ */
+function getDetailsDependencies(
+  call: ts.CallExpression,
+  constants: Map<string, ts.Expression | null>
+): DependencyDefinition[] {
+  const details = getDetailsArgument(call);
+  if (!details) return [];
+
+  const sourceFile = call.getSourceFile();
+  const deps: DependencyDefinition[] = [];
+  const addValue = (node: ts.Expression | undefined): void => {
+    const value = node ? resolveTitle(node, constants) : null;
+    if (!node || !value || value.dynamic || !value.text.trim()) return;
+    deps.push({
+      ...parseDependsValue(value.text.trim()),
+      location: getLocation(sourceFile, node.getStart(sourceFile)),
+    });
+  };
+
+  const depends = getPropertyValue(details, 'depends');
+  if (depends) asElements(depends).forEach(addValue);
+
+  const annotation = getPropertyValue(details, 'annotation');
+  for (const entry of annotation ? asElements(annotation) : []) {
+    if (!ts.isObjectLiteralExpression(entry)) continue;
+    const type = getPropertyValue(entry, 'type');
+    if (type && ts.isStringLiteralLike(type) && type.text === 'depends') {
+      addValue(getPropertyValue(entry, 'description'));
+    }
+  }
+
+  return deps;
+}
+
+/** Collect `@depends` from the comments directly attached to a test call. */
+function getCommentDependencies(call: ts.CallExpression, source: string): DependencyDefinition[] {
+  const sourceFile = call.getSourceFile();
+  return getAttachedCommentRanges(call, source).flatMap(range => parseDependsAnnotations(
+    source.substring(range.pos, range.end),
+    offset => getLocation(sourceFile, range.pos + offset)
+  ));
+}
+
+function getCommentProvides(call: ts.CallExpression, source: string): string[] {
+  return getAttachedCommentRanges(call, source)
+    .flatMap(range => parseProvidesAnnotations(source.substring(range.pos, range.end)));
+}
+
+/**
+ * Ranges of the comments directly attached to a test call.
+ * Comments belong to the enclosing statement when the call is used as one.
+ */
+function getAttachedCommentRanges(call: ts.CallExpression, source: string): ts.CommentRange[] {
+  const anchor = ts.isExpressionStatement(call.parent) ? call.parent : call;
+  return ts.getLeadingCommentRanges(source, anchor.getFullStart()) ?? [];
+}
+
+function getLocation(sourceFile: ts.SourceFile, position: number): SourceLocation {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Walk every test declaration in a source file, tracking describe scope.
+ */
+function visitTestDeclarations(
+  source: string,
+  fileName: string,
+  onTest: (test: DiscoveredTest) => void
+): void {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+  const constants = collectConstants(sourceFile);
+
+  const visit = (node: ts.Node, scope: DiscoveryScope): void => {
+    if (ts.isCallExpression(node)) {
+      const callee = classifyCallee(node.expression);
+      const callback = getCallback(node);
+
+      if (callee && callback) {
+        const titleArg = getTitleArgument(node);
+        const title = titleArg ? resolveTitle(titleArg, constants) : null;
+        const modifiers = [...new Set([...scope.modifiers, ...callee.modifiers])];
+        const ownDeps = mergeDependencies(
+          getCommentDependencies(node, source),
+          getDetailsDependencies(node, constants)
+        );
+        // Suite-level @depends apply to every test inside the suite
+        const dependencies = mergeDependencies(scope.dependencies, ownDeps);
+
+        if (callee.kind === 'describe') {
+          visit(callback.body, {
+            describePath: title ? [...scope.describePath, title.text] : scope.describePath,
+            modifiers,
+            dependencies,
+          });
+          return;
+        }
+
+        if (title) {
+          onTest({
+            title: title.text,
+            dynamic: title.dynamic,
+            describePath: scope.describePath,
+            modifiers,
+            location: getLocation(sourceFile, node.getStart(sourceFile)),
+            sourceHash: crypto.createHash('sha256').update(node.getText(sourceFile)).digest('hex'),
+            dependencies,
+            provides: [...new Set(getCommentProvides(node, source))],
+          });
+          return;
+        }
+      }
+    }
+
+    ts.forEachChild(node, child => visit(child, scope));
+  };
+
+  visit(sourceFile, { describePath: [], modifiers: [], dependencies: [] });
+}
+
+/**
+ * Discover all test declarations in a source file using the TypeScript syntax tree.
+ * Handles modifiers (`test.only`, `test.skip`, ...), nested `test.describe` blocks
+ * and ignores `test(` appearing inside strings or comments.
+ * `@depends` above a `test.describe` is inherited by every test in that suite.
+ * Dependencies in the details argument (`{ depends: [...] }`) are merged with comment ones.
+ * Template literal titles are resolved from file-level constants where possible,
+ * otherwise the test is reported with `dynamic: true`.
+ */
+export function discoverTests(source: string, fileName = 'test.spec.ts'): DiscoveredTest[] {
+  const tests: DiscoveredTest[] = [];
+  visitTestDeclarations(source, fileName, test => tests.push(test));
+  return tests;
+}
+
+/**
+ * Discover the tests of a file on disk.
+ * Test and dependency locations record the file they refer to.
+ */
+export function discoverTestsInFile(filePath: string): DiscoveredTest[] {
+  const withFile = (location: SourceLocation): SourceLocation => ({ ...location, file: filePath });
+
+  return discoverTests(fs.readFileSync(filePath, 'utf-8'), filePath).map(test => ({
+    ...test,
+    location: withFile(test.location),
+    dependencies: test.dependencies.map(dep =>
+      dep.location ? { ...dep, location: withFile(dep.location) } : dep
+    ),
+  }));
+}
+
+/**
+ * Format a source location as `file:line:column` (file relative to the working directory),
+ * the form editors and terminals turn into links.
+ */
+export function formatLocation(location: SourceLocation): string {
+  const position = `${location.line}:${location.column}`;
+  if (!location.file) return position;
+  return `${path.relative(process.cwd(), location.file) || location.file}:${position}`;
+}
+
+/** Suffix pointing at where a dependency was declared, or an empty string when unknown. */
+export function declaredAt(dep: DependencyDefinition): string {
+  return dep.location ? ` (declared at ${formatLocation(dep.location)})` : '';
+}
+
+export function parseTestSource(source: string, fileName?: string): Map<string, DependencyDefinition[]> {
+  const result = new Map<string, DependencyDefinition[]>();
+
+  for (const test of discoverTests(source, fileName)) {
+    if (test.dependencies.length > 0) result.set(test.title, test.dependencies);
+  }
 
   return result;
 }
 
 export function parseTestFile(filePath: string): Map<string, DependencyDefinition[]> {
-  return parseTestSource(fs.readFileSync(filePath, 'utf-8'));
+  return parseTestSource(fs.readFileSync(filePath, 'utf-8'), filePath);
 }
 
 export function generateTestKey(file: string | undefined, title: string): string {
   return file ? `${path.basename(file)} > ${title}` : title;
 }
 
+/**
+ * Store key of a test under the path of its file relative to the project root,
+ * the key path-qualified references ("admin/login.spec.ts > log in") are looked up by.
+ */
+export function getPathKey(filePath: string, title: string): string {
+  const relativePath = path.relative(findProjectRoot(filePath), filePath).split(path.sep).join('/');
+  return `${relativePath} > ${title}`;
+}
+
 export function parseTestKey(key: string): { file?: string; testTitle: string } {
-  const match = key.match(CROSS_FILE_REGEX);
+  const match = key.match(crossFileRegex);
   return match
     ? { file: match[1].trim(), testTitle: match[2].trim() }
     : { testTitle: key };
 }
 
+/**
+ * Resolve the file part of a cross-file dependency.
+ * `./` and `../` paths (and bare file names) are relative to the dependent file,
+ * other paths containing a slash are relative to the project root.
+ */
 export function resolveFilePath(currentFile: string, relativePath: string): string {
-  return path.resolve(path.dirname(currentFile), relativePath);
+  if (path.isAbsolute(relativePath) || relativePath.startsWith('.') || !relativePath.includes('/')) {
+    return path.resolve(path.dirname(currentFile), relativePath);
+  }
+  return path.resolve(findProjectRoot(currentFile), relativePath);
+}
+
+/**
+ * Find the test files a cross-file dependency refers to among known files.
+ * Bare file names match by basename, so more than one result means the reference is ambiguous.
+ */
+export function findDependencyFiles(
+  depFile: string,
+  currentFile: string,
+  knownFiles: string[]
+): string[] {
+  const known = knownFiles.map(file => path.resolve(file));
+
+  if (!depFile.includes('/')) {
+    return known.filter(file => path.basename(file) === depFile);
+  }
+
+  const target = resolveFilePath(path.resolve(currentFile), depFile);
+  return known.filter(file => file === target);
+}
+
+/**
+ * Find project root by looking for package.json or playwright.config
+ */
+export function findProjectRoot(startPath: string): string {
+  let current = path.dirname(startPath);
+  
+  while (current !== path.dirname(current)) {
+    if (
+      fs.existsSync(path.join(current, 'package.json')) ||
+      fs.existsSync(path.join(current, 'playwright.config.ts')) ||
+      fs.existsSync(path.join(current, 'playwright.config.js'))
+    ) {
+      return current;
+    }
+    current = path.dirname(current);
+  }
+  
+  return path.dirname(startPath);
 }
@@ -13,9 +13,30 @@ import type {
   ResultLookup,
   DependencyValidationResult,
   DependencyValidationError,
+  DiscoveredTest,
 } from './types.js';
 import { resultStore } from './store.js';
-import { parseTestKey, parseTestFile } from './parser.js';
+import type { ResultReadOptions } from './store.js';
+import { forEachConcurrent, runLimited } from './concurrency.js';
+import { CircularDependencyError } from './graph.js';
+import { getRetryPolicy, runWithRetries } from './retry.js';
+import { runWithTimeout } from './timeout.js';
+import {
+  parseTestKey,
+  parseDependsValue,
+  matchesDependency,
+  discoverTestsInFile,
+  findDependencyFiles,
+  setTestFileSuffixes,
+  formatLocation,
+  declaredAt,
+  findDataProviders,
+  dataKey,
+  getPathKey,
+  resolveFilePath,
+  resolveAliasedTitle,
+  DEFAULT_TEST_FILE_SUFFIXES,
+} from './parser.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -23,9 +44,19 @@ const DEFAULT_CONFIG: RequiredRelayConfig = {
   dependencyTimeout: 60000,
   onDependencyFailure: 'skip',
   persistCache: false,
+  cacheMaxAge: Infinity,
   validateDependencies: false,
+  testFileSuffixes: DEFAULT_TEST_FILE_SUFFIXES,
+  dependencyRetries: 0,
+  dependencyRetryDelay: 1000,
+  dependencyRetryBackoff: 2,
+  maxConcurrentDependencies: 4,
+  debug: false,
 };
 
+// Aggregate status of a pattern dependency: the first status any match has, in this order
+const PATTERN_STATUS_PRIORITY: TestStatus[] = ['failed', 'running', 'pending', 'skipped'];
+
 let config: RequiredRelayConfig = { ...DEFAULT_CONFIG };
 let configInitialized = false;
 const testRegistry = new Map<string, RegisteredTest>();
@@ -33,12 +64,15 @@ const testRegistry = new Map<string, RegisteredTest>();
 // Configuration
 export function setRelayConfig(newConfig: RelayConfig): void {
   config = { ...DEFAULT_CONFIG, ...newConfig };
+  setTestFileSuffixes(config.testFileSuffixes);
+  resultStore.setMaxAge(config.cacheMaxAge);
   
-  // Auto-initialize store when persistCache is enabled
-  if (config.persistCache && !configInitialized) {
+  // Auto-initialize store when persistCache is enabled or a storage backend is configured
+  if ((config.persistCache || config.storeAdapter) && !configInitialized) {
     resultStore.initialize({
-      persistCache: true,
+      persistCache: config.persistCache,
       cacheFilePath: config.cacheFilePath,
+      adapter: config.storeAdapter,
       hooks: config.hooks,
     });
     configInitialized = true;
@@ -58,9 +92,13 @@ export function getRelayConfig(): RequiredRelayConfig {
 }
 
 // Test Registry
+/**
+ * Register a test function that relay.require() and dependents can run on demand.
+ * It receives an AbortSignal that is aborted when the run exceeds `dependencyTimeout`.
+ */
 export function registerTest(
   key: string,
-  fn: () => Promise<unknown>,
+  fn: (signal: AbortSignal) => Promise<unknown>,
   dependencies: DependencyDefinition[] = []
 ): void {
   testRegistry.set(key, { fn, dependencies });
@@ -83,8 +121,12 @@ function normalizeKey(key: string, currentFile?: string): string[] {
   const { file, testTitle } = parseTestKey(key);
   const keys = [key];
 
-  if (file) {
-    keys.push(`${file} > ${testTitle}`, testTitle);
+  if (file?.includes('/')) {
+    // A path names one file; results of a file with the same basename must not match
+    if (currentFile) keys.push(getPathKey(resolveFilePath(currentFile, file), testTitle));
+  } else if (file) {
+    keys.push(`${file} > ${testTitle}`);
+    keys.push(testTitle);
   } else if (currentFile) {
     const fileName = currentFile.split('/').pop() ?? currentFile;
     keys.push(`${fileName} > ${testTitle}`);
@@ -102,15 +144,12 @@ function normalizeKey(key: string, currentFile?: string): string[] {
  * - "setup.spec.ts > my test" (exact)
  * - "setup.spec.ts > [setup] my test" (fuzzy - ends with test title)
  */
-function findResultWithFuzzyMatch<T>(key: string, currentFile?: string): ResultLookup<T> {
+function findResultWithFuzzyMatch<T>(key: string, currentFile?: string, options?: ResultReadOptions): ResultLookup<T> {
   // First try exact match with normalized keys
   for (const k of normalizeKey(key, currentFile)) {
-    if (resultStore.has(k)) {
-      return {
-        found: true,
-        data: resultStore.getData<T>(k),
-        status: resultStore.getStatus(k),
-      };
+    const result = resultStore.get<T>(k, options);
+    if (result) {
+      return { found: true, data: result.data, status: result.status };
     }
   }
   
@@ -122,20 +161,12 @@ function findResultWithFuzzyMatch<T>(key: string, currentFile?: string): ResultL
     const allKeys = resultStore.keys();
     for (const storedKey of allKeys) {
       const parsed = parseTestKey(storedKey);
-      if (parsed.file === file && parsed.testTitle.endsWith(testTitle)) {
-        return {
-          found: true,
-          data: resultStore.getData<T>(storedKey),
-          status: resultStore.getStatus(storedKey),
-        };
-      }
-      // Also check if stored key without file prefix ends with test title
-      if (storedKey.includes(file) && storedKey.endsWith(testTitle)) {
-        return {
-          found: true,
-          data: resultStore.getData<T>(storedKey),
-          status: resultStore.getStatus(storedKey),
-        };
+      const matches = (parsed.file === file && parsed.testTitle.endsWith(testTitle))
+        // Also check if stored key without file prefix ends with test title
+        || (storedKey.includes(file) && storedKey.endsWith(testTitle));
+      const result = matches ? resultStore.get<T>(storedKey, options) : undefined;
+      if (result) {
+        return { found: true, data: result.data, status: result.status };
       }
     }
   }
@@ -143,55 +174,116 @@ function findResultWithFuzzyMatch<T>(key: string, currentFile?: string): ResultL
   return { found: false, status: 'pending' };
 }
 
-function findResult<T>(key: string, currentFile?: string): ResultLookup<T> {
-  return findResultWithFuzzyMatch<T>(key, currentFile);
+/**
+ * Collect the results of every stored test a pattern dependency matches.
+ * Data is a Map keyed by test key; the status is the least successful one among the matches.
+ */
+function findPatternResults<T>(dep: DependencyDefinition): ResultLookup<T> {
+  const matched = resultStore.match(key => matchesDependency(dep, key));
+  if (matched.size === 0) return { found: false, status: 'pending' };
+
+  const statuses = new Set([...matched.values()].map(r => r.status));
+  const status = PATTERN_STATUS_PRIORITY.find(s => statuses.has(s)) ?? 'passed';
+  const data = new Map([...matched].map(([key, result]) => [key, result.data]));
+
+  return { found: true, data: data as T, status };
+}
+
+function findResult<T>(key: string, currentFile?: string, options?: ResultReadOptions): ResultLookup<T> {
+  const result = findResultWithFuzzyMatch<T>(key, currentFile, options);
+  if (result.found) return result;
+
+  // Fall back to pattern matching when no test has this exact title
+  const dep = parseDependsValue(key);
+  if (dep.pattern) return findPatternResults<T>(dep);
+
+  // Then to data published under this name by a `@provides` test
+  return key === dep.testTitle ? findResultWithFuzzyMatch<T>(dataKey(key), undefined, options) : result;
 }
 
-// Dependency execution
+// Dependency execution; `chain` holds the keys of the tests whose dependencies are running
 async function executeDependencies(
   deps: DependencyDefinition[],
-  currentFile?: string
+  currentFile?: string,
+  chain: string[] = []
 ): Promise<void> {
-  for (const dep of deps) {
-    let executed = false;
-
-    for (const key of normalizeKey(dep.fullKey, currentFile)) {
-      if (resultStore.has(key)) {
-        if (resultStore.getStatus(key) === 'failed' && config.onDependencyFailure === 'fail') {
-          throw new Error(`Dependency "${key}" failed`);
-        }
-        executed = true;
-        break;
-      }
+  await forEachConcurrent(deps, config.maxConcurrentDependencies, async dep => {
+    try {
+      await runDependency(dep, currentFile, chain);
+    } catch (error) {
+      // Optional dependencies never block the dependent
+      if (!dep.optional) throw error;
+    }
+  });
+}
 
-      const registered = testRegistry.get(key);
-      if (registered) {
-        await executeTest(key, registered.fn, registered.dependencies, currentFile);
-        executed = true;
-        break;
+async function runDependency(
+  declared: DependencyDefinition,
+  currentFile?: string,
+  chain: string[] = []
+): Promise<void> {
+  // "log in as admin" may be the title of a test rather than "log in" aliased as admin
+  const dep = declared.alias
+    ? resolveAliasedTitle(declared, [...testRegistry.keys(), ...resultStore.keys()].map(key => parseTestKey(key).testTitle))
+    : declared;
+  let executed = false;
+
+  for (const key of normalizeKey(dep.fullKey, currentFile)) {
+    const existing = await resultStore.getAsync(key, { maxAge: dep.ttl });
+    if (existing) {
+      if (existing.status === 'failed' && config.onDependencyFailure === 'fail') {
+        throw new Error(`Dependency "${key}" failed${declaredAt(dep)}`);
       }
+      executed = true;
+      break;
     }
 
-    if (!executed) {
-      console.warn(`Dependency "${dep.fullKey}" not found`);
+    const registered = testRegistry.get(key);
+    if (registered) {
+      await executeTest(key, registered.fn, registered.dependencies, currentFile, dep, chain);
+      executed = true;
+      break;
     }
   }
+
+  if (!executed && dep.pattern) {
+    // Run every registered test the pattern matches
+    const matchedKeys = [...testRegistry.keys()].filter(key => matchesDependency(dep, key));
+    await forEachConcurrent(matchedKeys, config.maxConcurrentDependencies, async key => {
+      const registered = testRegistry.get(key)!;
+      await executeTest(key, registered.fn, registered.dependencies, currentFile, dep, chain);
+    });
+    executed = matchedKeys.length > 0 || findPatternResults(dep).found;
+  }
+
+  if (!executed && !dep.optional) {
+    console.warn(`Dependency "${dep.fullKey}" not found${declaredAt(dep)}`);
+  }
 }
 
 async function executeTest(
   key: string,
-  fn: () => Promise<unknown>,
+  fn: (signal: AbortSignal) => Promise<unknown>,
   deps: DependencyDefinition[] = [],
-  currentFile?: string
+  currentFile?: string,
+  declared?: DependencyDefinition,
+  chain: string[] = []
 ): Promise<unknown> {
-  // Return pending execution
+  // A test reached again through its own dependencies would wait for itself forever
+  if (chain.includes(key)) {
+    throw new CircularDependencyError([...chain.slice(chain.indexOf(key)), key]);
+  }
+
+  const cached = await resultStore.getAsync(key, { maxAge: declared?.ttl });
+
+  // Return pending execution; checked after the read so concurrent callers share one execution
   const pending = resultStore.getPending(key);
   if (pending) return pending;
 
   // Return cached result
-  if (resultStore.has(key)) {
-    const status = resultStore.getStatus(key);
-    if (status === 'passed') return resultStore.getData(key);
+  if (cached) {
+    const { status } = cached;
+    if (status === 'passed') return cached.data;
     if (status === 'failed') {
       if (config.onDependencyFailure === 'fail') {
         throw new Error(`Dependency "${key}" previously failed`);
@@ -200,26 +292,25 @@ async function executeTest(
     }
   }
 
-  await executeDependencies(deps, currentFile);
-
-  resultStore.set(key, 'running');
-
+  // Registered as pending before its dependencies run, so concurrent callers share one execution
   const promise = (async () => {
     try {
-      const result = await Promise.race([
-        fn(),
-        new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error(`Timeout after ${config.dependencyTimeout}ms`)),
-            config.dependencyTimeout
-          )
-        ),
-      ]);
-      resultStore.set(key, 'passed', result);
-      return result;
-    } catch (error) {
-      resultStore.set(key, 'failed', undefined, error as Error);
-      if (config.onDependencyFailure === 'fail') throw error;
+      await executeDependencies(deps, currentFile, [...chain, key]);
+
+      resultStore.set(key, 'running');
+      // Each attempt gets its own timeout; the signal tells the test function to stop
+      const outcome = await runLimited(config.maxConcurrentDependencies, () => runWithRetries(
+        () => runWithTimeout(key, config.dependencyTimeout, fn),
+        getRetryPolicy(config, declared)
+      ));
+      const duration = outcome.attempts.reduce((total, attempt) => total + attempt.duration, 0);
+
+      if (outcome.status === 'passed') {
+        resultStore.set(key, 'passed', outcome.result, undefined, { duration, attempts: outcome.attempts });
+        return outcome.result;
+      }
+      resultStore.set(key, 'failed', undefined, outcome.error as Error, { duration, attempts: outcome.attempts });
+      if (config.onDependencyFailure === 'fail') throw outcome.error;
       return undefined;
     } finally {
       resultStore.removePending(key);
@@ -231,41 +322,75 @@ async function executeTest(
 }
 
 // Relay factory
-export function createRelay(currentFile?: string): Relay {
+export function createRelay(
+  currentFile?: string,
+  dependencies: DependencyDefinition[] = []
+): Relay {
+  // Aliases are scoped to the dependencies of this relay ("@depends ... as admin")
+  const resolveAlias = (testKey: string): string =>
+    dependencies.find(dep => dep.alias === testKey)?.fullKey ?? testKey;
+
+  // Optional dependencies resolve to undefined instead of throwing when they did not pass
+  const isOptional = (testKey: string): boolean =>
+    dependencies.some(dep => dep.optional && (dep.fullKey === testKey || dep.testTitle === testKey));
+
+  // The declared dependency a key refers to, whose options such as `ttl` apply to its reads
+  const findDeclared = (testKey: string): DependencyDefinition | undefined => {
+    const resolvedKey = resolveAlias(testKey);
+    return dependencies.find(dep =>
+      dep.alias === testKey || dep.fullKey === resolvedKey || dep.testTitle === resolvedKey
+    );
+  };
+
+  const readOptions = (testKey: string): ResultReadOptions => ({ maxAge: findDeclared(testKey)?.ttl });
+
   return {
     from<T>(testKey: string): T {
-      const result = findResult<T>(testKey, currentFile);
+      const resolvedKey = resolveAlias(testKey);
+      const result = findResult<T>(resolvedKey, currentFile, readOptions(testKey));
 
+      if (result.status !== 'passed' && isOptional(resolvedKey)) {
+        return undefined as T;
+      }
       if (!result.found) {
         throw new Error(
-          `Dependency "${testKey}" not executed. Use relay.require() or @depends annotation.`
+          `Dependency "${resolvedKey}" not executed. Use relay.require() or @depends annotation.`
         );
       }
       if (result.status === 'failed') {
-        throw new Error(`Dependency "${testKey}" failed`);
+        throw new Error(`Dependency "${resolvedKey}" failed`);
       }
 
       return result.data as T;
     },
 
     async require<T>(testKey: string): Promise<T> {
-      const result = findResult<T>(testKey, currentFile);
+      const resolvedKey = resolveAlias(testKey);
+      const declared = findDeclared(testKey);
+      const result = findResult<T>(resolvedKey, currentFile, { maxAge: declared?.ttl });
       if (result.found && result.status === 'passed') {
         return result.data as T;
       }
 
-      for (const key of normalizeKey(testKey, currentFile)) {
+      for (const key of normalizeKey(resolvedKey, currentFile)) {
         const registered = testRegistry.get(key);
         if (registered) {
-          return (await executeTest(key, registered.fn, registered.dependencies, currentFile)) as T;
+          return (await executeTest(key, registered.fn, registered.dependencies, currentFile, declared)) as T;
         }
       }
 
-      throw new Error(`Test "${testKey}" not found in registry`);
+      const dep = parseDependsValue(resolvedKey);
+      if (dep.pattern) {
+        await executeDependencies([dep], currentFile);
+        const matched = findPatternResults<T>(dep);
+        if (matched.found) return matched.data as T;
+      }
+
+      throw new Error(`Test "${resolvedKey}" not found in registry`);
     },
 
     hasRun(testKey: string): boolean {
-      const { found, status } = findResult(testKey, currentFile);
+      const { found, status } = findResult(resolveAlias(testKey), currentFile, readOptions(testKey));
       return found && status !== 'pending' && status !== 'running';
     },
 
@@ -274,14 +399,14 @@ export function createRelay(currentFile?: string): Relay {
     },
 
     async rerun<T>(testKey: string): Promise<T> {
-      for (const key of normalizeKey(testKey, currentFile)) {
+      for (const key of normalizeKey(resolveAlias(testKey), currentFile)) {
         resultStore.delete(key);
       }
       return this.require<T>(testKey);
     },
 
     status(testKey: string): TestStatus {
-      return findResult(testKey, currentFile).status;
+      return findResult(resolveAlias(testKey), currentFile, readOptions(testKey)).status;
     },
   };
 }
@@ -327,83 +452,102 @@ export function clearResults(): void {
  */
 export function validateDependencies(testFiles: string[]): DependencyValidationResult {
   const errors: DependencyValidationError[] = [];
-  // Map from full key (file > title) to test info, to properly track cross-file deps
-  const allTests = new Map<string, { file: string; title: string }>();
-  // Also track just test titles within each file
+  // Tests and their titles per file, keyed by absolute path so equal basenames stay distinct
+  const discoveredByFile = new Map<string, DiscoveredTest[]>();
   const testsByFile = new Map<string, Set<string>>();
+  const knownFiles = testFiles.filter(file => fs.existsSync(file)).map(file => path.resolve(file));
   
   // First pass: collect all test definitions
-  for (const filePath of testFiles) {
-    if (!fs.existsSync(filePath)) {
-      continue;
-    }
-    
+  for (const filePath of knownFiles) {
     try {
-      const fileName = path.basename(filePath);
-      const fileTests = new Set<string>();
-      
-      // Parse test titles from source
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const testMatches = content.matchAll(/test\s*\(\s*['"`]([^'"`]+)['"`]/g);
-      for (const match of testMatches) {
-        const title = match[1];
-        fileTests.add(title);
-        allTests.set(`${fileName} > ${title}`, { file: filePath, title });
-      }
-      
-      testsByFile.set(fileName, fileTests);
-      testsByFile.set(filePath, fileTests);
+      const discovered = discoverTestsInFile(filePath);
+      discoveredByFile.set(filePath, discovered);
+      testsByFile.set(filePath, new Set(discovered.map(t => t.title)));
     } catch {
       // Skip files that can't be parsed
     }
   }
   
   // Second pass: validate dependencies
-  for (const filePath of testFiles) {
-    if (!fs.existsSync(filePath)) {
-      continue;
-    }
+  for (const [filePath, discovered] of discoveredByFile) {
+    const fileName = path.basename(filePath);
+    const currentFileTests = testsByFile.get(filePath)!;
     
-    try {
-      const deps = parseTestFile(filePath);
-      const fileName = path.basename(filePath);
-      const currentFileTests = testsByFile.get(fileName) ?? new Set();
+    for (const { title: testTitle, dependencies } of discovered) {
+      const testKey = `${fileName} > ${testTitle}`;
       
-      for (const [testTitle, dependencies] of deps) {
-        const testKey = `${fileName} > ${testTitle}`;
+      for (const dep of dependencies) {
+        // Optional dependencies may legitimately be absent
+        if (dep.optional) continue;
         
-        for (const dep of dependencies) {
-          let depExists = false;
-          
-          if (dep.file) {
-            // Cross-file dependency - must check the specific file
-            const depFileTests = testsByFile.get(dep.file);
-            depExists = depFileTests?.has(dep.testTitle) ?? false;
-            
-            // Also check by full key
-            if (!depExists) {
-              depExists = allTests.has(`${dep.file} > ${dep.testTitle}`);
-            }
-          } else {
-            // Same-file dependency - check within current file only
-            depExists = currentFileTests.has(dep.testTitle);
+        let targetTests: Set<string> | undefined = currentFileTests;
+        let targetFile: string | undefined = filePath;
+        
+        if (dep.file) {
+          // Cross-file dependency - must resolve to exactly one file
+          const candidates = findDependencyFiles(dep.file, filePath, knownFiles);
+          if (candidates.length > 1) {
+            errors.push({
+              testKey,
+              dependency: dep.fullKey,
+              file: filePath,
+              location: dep.location,
+              message: `Dependency "${dep.fullKey}" is ambiguous: "${dep.file}" matches ` +
+                `${candidates.map(c => path.relative(process.cwd(), c)).join(', ')}. ` +
+                `Use a relative ("../dir/${dep.file}") or project-root ("dir/${dep.file}") path.`,
+            });
+            continue;
           }
+          targetFile = candidates[0];
+          targetTests = targetFile ? testsByFile.get(targetFile) : undefined;
+        }
+        
+        if (dep.dataName) {
+          // Data may come from any file unless the dependency names one
+          const candidates = dep.file
+            ? (targetFile && discoveredByFile.get(targetFile)) || []
+            : [...discoveredByFile.values()].flat();
+          const producers = findDataProviders(dep, candidates);
           
-          if (!depExists) {
+          if (producers.length !== 1) {
             errors.push({
               testKey,
               dependency: dep.fullKey,
               file: filePath,
-              message: `Dependency "${dep.fullKey}" not found. ` +
-                (dep.file 
-                  ? `Cross-file dependency format: "${dep.file} > ${dep.testTitle}". Make sure the file "${dep.file}" is included in the test run and contains the test.`
-                  : `Make sure the test "${dep.testTitle}" exists in the same file or use cross-file format: "filename.spec.ts > test name".`),
+              location: dep.location,
+              message: producers.length === 0
+                ? `No test provides "${dep.dataName}"` + (dep.file ? ` in "${dep.file}". ` : '. ') +
+                  `Add "@provides ${dep.dataName}" to the test that creates it.`
+                : `"${dep.dataName}" is provided by several tests: ` +
+                  `${producers.map(p => `${p.title} (${formatLocation(p.location)})`).join(', ')}. ` +
+                  `Keep a single @provides or name the file: "@depends-data file.spec.ts > ${dep.dataName}".`,
             });
           }
+          continue;
+        }
+        
+        // "log in as admin" may be the title of a test rather than "log in" aliased as admin
+        const { testTitle: depTitle } = resolveAliasedTitle(dep, targetTests ?? []);
+        const depExists = dep.pattern
+          ? [...(targetTests ?? [])].some(title => dep.pattern!.test(title))
+          : targetTests?.has(depTitle) ?? false;
+        
+        if (!depExists) {
+          errors.push({
+            testKey,
+            dependency: dep.fullKey,
+            file: filePath,
+            location: dep.location,
+            message: dep.pattern
+              ? `Dependency pattern "${dep.fullKey}" does not match any test` +
+                (dep.file ? ` in "${dep.file}".` : ' in the same file.')
+              : `Dependency "${dep.fullKey}" not found. ` +
+              (dep.file 
+                ? `Cross-file dependency format: "${dep.file} > ${dep.testTitle}". Make sure the file "${dep.file}" is included in the test run and contains the test.`
+                : `Make sure the test "${dep.testTitle}" exists in the same file or use cross-file format: "filename.spec.ts > test name".`),
+          });
         }
       }
-    } catch {
-      // Skip files that can't be parsed
     }
   }
   
@@ -424,7 +568,7 @@ export function validateDependenciesOrThrow(testFiles: string[]): void {
   
   if (!result.valid) {
     const errorMessages = result.errors
-      .map(e => `  - ${e.testKey}: ${e.message}`)
+      .map(e => `  - ${e.location ? `${formatLocation(e.location)} ` : ''}${e.testKey}: ${e.message}`)
       .join('\n');
     
     throw new Error(
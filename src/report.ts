@@ -0,0 +1,119 @@
+/**
+ * Playwright JSON report ingestion for dependencies run in a subprocess
+ * @module report
+ */
+
+import type {
+  JSONReport,
+  JSONReportSuite,
+  JSONReportTest,
+  JSONReportTestResult,
+} from '@playwright/test/reporter';
+import { decodeValue } from './serializer.js';
+import type { TestStatus, TestAttempt } from './types.js';
+
+/** Name of the attachment a test run as a subprocess dependency reports its relay data in */
+export const RELAY_RESULT_ATTACHMENT = 'playwright-relay-result';
+
+/** Payload of the relay result attachment */
+export interface RelayResultPayload {
+  /** Encoded with encodeValue, so dates, maps, big integers and the like survive the report */
+  data?: unknown;
+}
+
+/** Outcome of one test in a JSON report */
+export interface ReportedTest {
+  /** File of the test, relative to the config's root directory */
+  file: string;
+  /** Titles of the enclosing describe blocks followed by the test title */
+  titlePath: string[];
+  projectName: string;
+  /** Status of the final attempt */
+  status: TestStatus;
+  /** Duration of the final attempt (ms) */
+  duration: number;
+  /** Every attempt, including retries */
+  attempts: TestAttempt[];
+  error?: Error;
+  /** Data the test reported through the relay result attachment */
+  data?: unknown;
+}
+
+function mapResultStatus(result: JSONReportTestResult | undefined): TestStatus {
+  switch (result?.status) {
+    case 'passed': return 'passed';
+    case 'failed':
+    case 'timedOut':
+    case 'interrupted': return 'failed';
+    default: return 'skipped';
+  }
+}
+
+function toError(result: JSONReportTestResult): Error | undefined {
+  const messages = result.errors.map(error => error.message);
+  if (messages.length === 0 && !result.error) return undefined;
+
+  const error = new Error(messages.join('\n\n') || result.error?.message || 'Test failed');
+  if (result.error?.stack) error.stack = result.error.stack;
+  return error;
+}
+
+function readRelayData(result: JSONReportTestResult): unknown {
+  const attachment = result.attachments.find(a => a.name === RELAY_RESULT_ATTACHMENT);
+  if (!attachment?.body) return undefined;
+
+  const payload: RelayResultPayload = JSON.parse(Buffer.from(attachment.body, 'base64').toString('utf-8'));
+  return decodeValue(payload.data);
+}
+
+function toAttempt(result: JSONReportTestResult): TestAttempt {
+  const status = mapResultStatus(result);
+  const error = status === 'failed' ? toError(result) : undefined;
+  return {
+    status,
+    duration: result.duration,
+    ...(error && { error: error.message }),
+  };
+}
+
+function toReportedTest(file: string, titlePath: string[], test: JSONReportTest): ReportedTest {
+  // Retries append results; the last one decides the outcome
+  const result = test.results[test.results.length - 1];
+  const status = mapResultStatus(result);
+
+  return {
+    file,
+    titlePath,
+    projectName: test.projectName,
+    status,
+    duration: result?.duration ?? 0,
+    attempts: test.results.map(toAttempt),
+    error: result && status === 'failed' ? toError(result) : undefined,
+    data: result ? readRelayData(result) : undefined,
+  };
+}
+
+/**
+ * List the tests of a Playwright JSON report.
+ * Top-level suites are files, so their titles are left out of each title path.
+ */
+export function readReportedTests(report: JSONReport): ReportedTest[] {
+  const tests: ReportedTest[] = [];
+
+  const visit = (file: string, suite: JSONReportSuite, describePath: string[]) => {
+    for (const spec of suite.specs) {
+      for (const test of spec.tests) {
+        tests.push(toReportedTest(file, [...describePath, spec.title], test));
+      }
+    }
+    for (const child of suite.suites ?? []) {
+      visit(file, child, [...describePath, child.title]);
+    }
+  };
+
+  for (const fileSuite of report.suites) {
+    visit(fileSuite.file, fileSuite, []);
+  }
+
+  return tests;
+}
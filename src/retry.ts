@@ -0,0 +1,66 @@
+/**
+ * Retry policy for dependencies run on demand
+ * @module retry
+ */
+
+import type { DependencyDefinition, RequiredRelayConfig, TestAttempt } from './types.js';
+
+/** How often and how patiently a failing dependency is retried */
+export interface RetryPolicy {
+  retries: number;
+  /** Delay before the first retry (ms) */
+  delay: number;
+  /** Factor the delay grows by with every further retry */
+  backoff: number;
+}
+
+/** Outcome of running a function under a retry policy */
+export type RetryOutcome<T> =
+  | { status: 'passed'; result: T; attempts: TestAttempt[] }
+  | { status: 'failed'; error: unknown; attempts: TestAttempt[] };
+
+/**
+ * Retry policy for a dependency: its own `{retries: n}` option, or `dependencyRetries`.
+ */
+export function getRetryPolicy(config: RequiredRelayConfig, dep?: DependencyDefinition): RetryPolicy {
+  return {
+    retries: dep?.retries ?? config.dependencyRetries,
+    delay: config.dependencyRetryDelay,
+    backoff: config.dependencyRetryBackoff,
+  };
+}
+
+/** Delay before retry number `retry` (1 for the first retry) */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  return policy.delay * Math.pow(policy.backoff, retry - 1);
+}
+
+/**
+ * Call `fn` until it resolves or the policy runs out of retries, waiting with backoff in between.
+ * Every attempt is recorded; the outcome is that of the last one.
+ */
+export async function runWithRetries<T>(fn: () => Promise<T>, policy: RetryPolicy): Promise<RetryOutcome<T>> {
+  const attempts: TestAttempt[] = [];
+
+  for (let retry = 0; ; retry++) {
+    if (retry > 0) {
+      await new Promise(resolve => setTimeout(resolve, getRetryDelay(policy, retry)));
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      attempts.push({ status: 'passed', duration: Date.now() - startedAt });
+      return { status: 'passed', result, attempts };
+    } catch (error) {
+      attempts.push({
+        status: 'failed',
+        duration: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (retry >= policy.retries) {
+        return { status: 'failed', error, attempts };
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Tagged JSON serialization of relay data for store files
+ * @module serializer
+ */
+
+import type { RelaySerializer } from './types.js';
+
+/** Key that marks an encoded value; its value names the type */
+const TYPE_KEY = '__relayType';
+
+/** Tags of the built-in types; custom serializers cannot use them */
+const BUILT_IN_TAGS = ['undefined', 'Date', 'Map', 'Set', 'BigInt', 'Buffer', 'Error', 'Object'];
+
+/** JSON representation of an encoded value */
+interface TaggedValue {
+  [TYPE_KEY]: string;
+  value?: unknown;
+}
+
+interface EncodedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  /** Other own properties, such as `code` */
+  properties?: Record<string, unknown>;
+}
+
+const customSerializers = new Map<string, RelaySerializer>();
+
+/**
+ * Register a serializer for values the built-in encoding doesn't round-trip, such as
+ * instances of domain classes. Custom serializers are tried before the built-in ones.
+ */
+export function registerSerializer<T>(serializer: RelaySerializer<T>): void {
+  if (BUILT_IN_TAGS.includes(serializer.tag)) {
+    throw new Error(`Serializer tag "${serializer.tag}" is reserved for a built-in type`);
+  }
+  customSerializers.set(serializer.tag, serializer as RelaySerializer);
+}
+
+/** Remove all custom serializers. Useful for testing. */
+export function clearSerializers(): void {
+  customSerializers.clear();
+}
+
+function tagged(type: string, value?: unknown): TaggedValue {
+  return value === undefined ? { [TYPE_KEY]: type } : { [TYPE_KEY]: type, value };
+}
+
+function isTagged(value: unknown): value is TaggedValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && TYPE_KEY in value;
+}
+
+function encodeError(error: Error): EncodedError {
+  const { name, message, stack, cause, ...properties } = error as Error & Record<string, unknown>;
+  return {
+    name,
+    message,
+    ...(stack !== undefined && { stack }),
+    ...(cause !== undefined && { cause: encodeValue(cause) }),
+    ...(Object.keys(properties).length > 0 && { properties: encodeValue(properties) as Record<string, unknown> }),
+  };
+}
+
+function decodeError(encoded: EncodedError): Error {
+  const error: Error & { cause?: unknown } = new Error(encoded.message);
+  error.name = encoded.name;
+  // Keep the original stack, or none, rather than one pointing at the decoder
+  error.stack = encoded.stack;
+  if (encoded.stack === undefined) delete error.stack;
+  if ('cause' in encoded) error.cause = decodeValue(encoded.cause);
+  Object.assign(error, decodeValue(encoded.properties));
+  return error;
+}
+
+/**
+ * Convert a value to a JSON-safe tree. Types JSON can't represent are replaced by
+ * `{ __relayType, value }` objects; everything else encodes as `JSON.stringify` would.
+ */
+export function encodeValue(value: unknown): unknown {
+  for (const serializer of customSerializers.values()) {
+    if (serializer.test(value)) {
+      return tagged(serializer.tag, encodeValue(serializer.serialize(value)));
+    }
+  }
+
+  if (value === undefined) return tagged('undefined');
+  if (typeof value === 'bigint') return tagged('BigInt', value.toString());
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value instanceof Date) return tagged('Date', isNaN(value.getTime()) ? null : value.toISOString());
+  if (value instanceof Map) return tagged('Map', [...value].map(([k, v]) => [encodeValue(k), encodeValue(v)]));
+  if (value instanceof Set) return tagged('Set', [...value].map(encodeValue));
+  if (Buffer.isBuffer(value)) return tagged('Buffer', value.toString('base64'));
+  if (value instanceof Error) return tagged('Error', encodeError(value));
+
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === 'function') return encodeValue(toJSON.call(value));
+
+  const encoded: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    // Absent and undefined properties are the same to JSON consumers
+    if (entry !== undefined) encoded[key] = encodeValue(entry);
+  }
+  // A plain object that happens to use the type key must not be mistaken for an encoded value
+  return TYPE_KEY in encoded ? tagged('Object', encoded) : encoded;
+}
+
+/**
+ * Restore a value produced by encodeValue. Values tagged by a serializer that isn't
+ * registered in this process are returned as they are.
+ */
+export function decodeValue(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (!isTagged(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decodeValue(entry)]));
+  }
+
+  const { [TYPE_KEY]: type, value: encoded } = value;
+  switch (type) {
+    case 'undefined': return undefined;
+    case 'BigInt': return BigInt(encoded as string);
+    case 'Date': return new Date((encoded as string | null) ?? NaN);
+    case 'Map': return new Map((encoded as [unknown, unknown][]).map(([k, v]) => [decodeValue(k), decodeValue(v)]));
+    case 'Set': return new Set((encoded as unknown[]).map(decodeValue));
+    case 'Buffer': return Buffer.from(encoded as string, 'base64');
+    case 'Error': return decodeError(encoded as EncodedError);
+    case 'Object': {
+      const object = encoded as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(object).map(([key, entry]) => [key, decodeValue(entry)]));
+    }
+  }
+
+  const serializer = customSerializers.get(type);
+  return serializer ? serializer.deserialize(decodeValue(encoded)) : value;
+}
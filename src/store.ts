@@ -3,10 +3,23 @@
  * @module store
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import type { TestResult, TestStatus, LifecycleHooks } from './types.js';
+import {
+  createMemoryAdapter,
+  createFileAdapter,
+  isAsyncAdapter,
+  writeStoreFile,
+} from './adapters.js';
+import { isSourceCurrent } from './fingerprint.js';
+import type {
+  TestResult,
+  TestStatus,
+  ResultSource,
+  LifecycleHooks,
+  RelayStoreAdapter,
+  AsyncRelayStoreAdapter,
+} from './types.js';
 
 // Default shared file path for cross-process communication
 const DEFAULT_SHARED_STORE_PATH = path.join(os.tmpdir(), 'playwright-relay-store.json');
@@ -18,8 +31,21 @@ const isPlaywrightRun = process.env.PLAYWRIGHT_RELAY_SUBPROCESS === 'true';
 // Can be overridden via environment variable for Playwright projects support
 const ENV_STORE_PATH = process.env.PLAYWRIGHT_RELAY_STORE_PATH;
 
-interface SerializedStore {
-  results: Record<string, TestResult>;
+// Private directory of a subprocess dependency run, created by the parent process
+const RUN_DIR = process.env.PLAYWRIGHT_RELAY_RUN_DIR;
+
+/** Store file a subprocess dependency run shares with the process that started it */
+export function getRunStorePath(runDir: string): string {
+  return path.join(runDir, 'store.json');
+}
+
+/** Run details stored along with a result */
+export type ResultDetails = Pick<TestResult, 'duration' | 'attempts' | 'source'>;
+
+/** Options for reading a result */
+export interface ResultReadOptions {
+  /** Treat results older than this (ms) as missing, instead of the store's maxAge */
+  maxAge?: number;
 }
 
 /** Options for initializing the store */
@@ -28,33 +54,49 @@ export interface StoreInitOptions {
   persistCache?: boolean;
   /** Custom path for the cache file */
   cacheFilePath?: string;
+  /** Storage backend to use instead of the cache file */
+  adapter?: RelayStoreAdapter | AsyncRelayStoreAdapter;
   /** Lifecycle hooks */
   hooks?: LifecycleHooks;
 }
 
 class ResultStore {
-  private readonly results = new Map<string, TestResult>();
+  private adapter: RelayStoreAdapter = createMemoryAdapter();
+  // Written through from `adapter`, which then holds an in-memory copy
+  private asyncAdapter?: AsyncRelayStoreAdapter;
+  // Writes to the asynchronous adapter, chained so they land in order
+  private asyncWrites: Promise<void> = Promise.resolve();
   private readonly pendingExecutions = new Map<string, Promise<unknown>>();
-  private useSharedStore: boolean;
+  // Results the adapter failed to store, kept so this process still has them
+  private readonly unsaved = new Map<string, TestResult>();
+  // Whether results outlive this process, i.e. the adapter is not the default in-memory one
+  private persistent = false;
+  // Cache file the adapter is bound to, when it is the built-in file adapter
+  private adapterFilePath?: string;
   private sharedStorePath: string;
+  // A subprocess dependency run keeps the private store its parent process reads back
+  private readonly isRunStore: boolean;
   private hooks?: LifecycleHooks;
   private initialized = false;
   private currentNamespace: string | null = null;
+  // Age (ms) after which a result counts as missing
+  private maxAge = Infinity;
+  // Expired results already reported, so each is reported once
+  private readonly reportedExpirations = new Set<string>();
 
   constructor(enableSharedStore = false, customPath?: string) {
     this.sharedStorePath = customPath ?? ENV_STORE_PATH ?? DEFAULT_SHARED_STORE_PATH;
+    this.isRunStore = enableSharedStore && RUN_DIR !== undefined && this.sharedStorePath === getRunStorePath(RUN_DIR);
     // Only use shared store if explicitly enabled or this is the singleton
-    this.useSharedStore = enableSharedStore;
-    
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
+    if (enableSharedStore) {
+      this.useFileAdapter(this.sharedStorePath);
     }
   }
 
   /**
    * Initialize the store with configuration options.
    * This is the recommended way to set up the store.
-   * Automatically loads cache if persistCache is true.
+   * Switches to the given adapter, or to the cache file if persistCache is true.
    */
   initialize(options: StoreInitOptions): void {
     this.hooks = options.hooks;
@@ -63,9 +105,14 @@ class ResultStore {
       this.sharedStorePath = options.cacheFilePath;
     }
     
-    if (options.persistCache) {
-      this.useSharedStore = true;
-      this.loadFromSharedStore();
+    if (options.persistCache || options.adapter) {
+      if (!this.isRunStore) {
+        if (options.adapter) {
+          this.setAdapter(options.adapter);
+        } else {
+          this.useFileAdapter(this.sharedStorePath);
+        }
+      }
       this.initialized = true;
       this.hooks?.onStoreInit?.();
     }
@@ -79,7 +126,56 @@ class ResultStore {
     if (filePath) {
       this.sharedStorePath = filePath;
     }
-    this.loadFromSharedStore();
+    this.useFileAdapter(this.sharedStorePath);
+  }
+
+  /**
+   * Keep results in another storage backend. Results stored so far are copied to it.
+   * An asynchronous adapter is written through from an in-memory copy; call load() to read
+   * everything it holds and flush() to wait for its writes.
+   */
+  setAdapter(adapter: RelayStoreAdapter | AsyncRelayStoreAdapter): void {
+    if (isAsyncAdapter(adapter)) {
+      this.switchAdapter(createMemoryAdapter());
+      this.asyncAdapter = adapter;
+      for (const [key, result] of this.entries()) {
+        this.writeAsync(key, result);
+      }
+    } else {
+      this.asyncAdapter = undefined;
+      this.switchAdapter(adapter);
+    }
+    this.persistent = true;
+  }
+
+  /**
+   * Merge the results another process wrote to a store file.
+   * A result from the file replaces one with the same key only when it is newer,
+   * and is skipped when the source of its test changed since it was stored.
+   */
+  importFromFile(filePath: string): number {
+    const source = createFileAdapter(filePath, { onCorrupted: this.reportCorruption });
+
+    let count = 0;
+    for (const key of source.list()) {
+      const value = source.get(key)!;
+      const existing = this.stored(key);
+      if ((!existing || value.timestamp > existing.timestamp) && !this.isOutdated(key, value)) {
+        this.write(key, value);
+        count++;
+      }
+    }
+    if (count > 0) {
+      this.notifySaved();
+    }
+    return count;
+  }
+
+  /**
+   * Write all results to a store file another process can load.
+   */
+  exportToFile(filePath: string): void {
+    writeStoreFile(filePath, this.entries(), this.reportSaveFailure);
   }
 
   /**
@@ -127,6 +223,14 @@ class ResultStore {
     return `${this.currentNamespace}::${key}`;
   }
 
+  /**
+   * Set the age (ms) after which results count as missing. Results of tests still
+   * running never expire.
+   */
+  setMaxAge(maxAge: number): void {
+    this.maxAge = maxAge;
+  }
+
   /**
    * Set lifecycle hooks
    */
@@ -139,67 +243,55 @@ class ResultStore {
    * @deprecated Use initialize({ persistCache: true }) instead
    */
   setSharedStoreEnabled(enabled: boolean): void {
-    this.useSharedStore = enabled;
     if (enabled) {
-      this.loadFromSharedStore();
+      this.useFileAdapter(this.sharedStorePath);
+    } else if (this.persistent) {
+      this.asyncAdapter = undefined;
+      this.switchAdapter(createMemoryAdapter());
+      this.persistent = false;
     }
   }
 
-  set<T>(key: string, status: TestStatus, data?: T, error?: Error): void {
+  set<T>(key: string, status: TestStatus, data?: T, error?: Error, details?: ResultDetails): void {
     const nsKey = this.getNamespacedKey(key);
-    this.results.set(nsKey, { status, data, error, timestamp: Date.now() });
+    this.write(nsKey, { status, data, error, timestamp: Date.now(), ...details });
     // Also store without namespace for backward compatibility within same namespace
     if (this.currentNamespace && nsKey !== key) {
-      this.results.set(key, { status, data, error, timestamp: Date.now() });
-    }
-    // Persist to shared store for cross-process access
-    if (this.useSharedStore) {
-      this.saveToSharedStore();
+      this.write(key, { status, data, error, timestamp: Date.now(), ...details });
     }
+    this.notifySaved();
   }
 
-  get<T>(key: string): TestResult<T> | undefined {
+  get<T>(key: string, options?: ResultReadOptions): TestResult<T> | undefined {
     const nsKey = this.getNamespacedKey(key);
     // Try namespaced key first, then original
-    if (this.results.has(nsKey)) {
-      return this.results.get(nsKey) as TestResult<T> | undefined;
-    }
-    if (this.results.has(key)) {
-      return this.results.get(key) as TestResult<T> | undefined;
-    }
-    // Try shared store
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
-      return (this.results.get(nsKey) ?? this.results.get(key)) as TestResult<T> | undefined;
-    }
-    return undefined;
+    return (this.read(nsKey, options) ?? this.read(key, options)) as TestResult<T> | undefined;
   }
 
-  has(key: string): boolean {
-    const nsKey = this.getNamespacedKey(key);
-    if (this.results.has(nsKey) || this.results.has(key)) return true;
-    // Check shared store
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
-      return this.results.has(nsKey) || this.results.has(key);
+  /**
+   * Get a result, first reading it from an asynchronous adapter in case another process
+   * stored a newer one. Same as get() with a synchronous adapter.
+   */
+  async getAsync<T>(key: string, options?: ResultReadOptions): Promise<TestResult<T> | undefined> {
+    if (this.asyncAdapter) {
+      for (const k of new Set([this.getNamespacedKey(key), key])) {
+        this.mergeNewer(k, await this.asyncAdapter.get(k));
+      }
     }
-    return false;
+    return this.get<T>(key, options);
   }
 
-  getStatus(key: string): TestStatus {
-    const nsKey = this.getNamespacedKey(key);
-    if (!this.results.has(nsKey) && !this.results.has(key) && this.useSharedStore) {
-      this.loadFromSharedStore();
-    }
-    return this.results.get(nsKey)?.status ?? this.results.get(key)?.status ?? 'pending';
+  has(key: string, options?: ResultReadOptions): boolean {
+    return this.get(key, options) !== undefined;
+  }
+
+  getStatus(key: string, options?: ResultReadOptions): TestStatus {
+    return this.get(key, options)?.status ?? 'pending';
   }
 
-  getData<T>(key: string): T | undefined {
+  getData<T>(key: string, options?: ResultReadOptions): T | undefined {
     const nsKey = this.getNamespacedKey(key);
-    if (!this.results.has(nsKey) && !this.results.has(key) && this.useSharedStore) {
-      this.loadFromSharedStore();
-    }
-    return (this.results.get(nsKey)?.data ?? this.results.get(key)?.data) as T | undefined;
+    return (this.read(nsKey, options)?.data ?? this.read(key, options)?.data) as T | undefined;
   }
 
   /**
@@ -220,11 +312,8 @@ class ResultStore {
   }
 
   getAll(): Map<string, unknown> {
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
-    }
     const result = new Map<string, unknown>();
-    for (const [key, { status, data }] of this.results) {
+    for (const [key, { status, data }] of this.liveEntries()) {
       if (status === 'passed' && data !== undefined) {
         result.set(key, data);
       }
@@ -236,10 +325,25 @@ class ResultStore {
    * Get all results with full metadata
    */
   getAllResults<T = unknown>(): Map<string, TestResult<T>> {
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
+    return new Map(this.liveEntries()) as Map<string, TestResult<T>>;
+  }
+
+  /**
+   * Get results whose key satisfies a predicate.
+   * Keys are reported without the current namespace prefix.
+   */
+  match<T = unknown>(predicate: (key: string) => boolean): Map<string, TestResult<T>> {
+    const prefix = this.currentNamespace ? `${this.currentNamespace}::` : null;
+    const matched = new Map<string, TestResult<T>>();
+
+    for (const key of this.keys()) {
+      const plainKey = prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+      if (!matched.has(plainKey) && predicate(plainKey)) {
+        matched.set(plainKey, this.get<T>(plainKey)!);
+      }
     }
-    return new Map(this.results) as Map<string, TestResult<T>>;
+
+    return matched;
   }
 
   setPending(key: string, promise: Promise<unknown>): void {
@@ -258,109 +362,218 @@ class ResultStore {
     return this.pendingExecutions.has(key);
   }
 
+  /**
+   * Record the test a stored result was produced by, keeping its timestamp.
+   * Once that test's source changes, loading a persisted copy of the result discards it.
+   */
+  setSource(key: string, source: ResultSource): void {
+    const nsKey = this.getNamespacedKey(key);
+    for (const storedKey of new Set([nsKey, key])) {
+      const result = this.stored(storedKey);
+      if (result) this.write(storedKey, { ...result, source });
+    }
+  }
+
   delete(key: string): void {
-    this.results.delete(key);
+    this.unsaved.delete(key);
+    this.persist(key, () => this.adapter.delete(key));
     this.pendingExecutions.delete(key);
-    if (this.useSharedStore) {
-      this.saveToSharedStore();
-    }
+    this.enqueueAsync(key, adapter => adapter.delete(key));
+    this.notifySaved();
   }
 
   clear(): void {
-    this.results.clear();
+    this.unsaved.clear();
+    this.persist(undefined, () => this.adapter.clear());
     this.pendingExecutions.clear();
-    if (this.useSharedStore) {
-      this.clearSharedStore();
-    }
+    this.enqueueAsync(undefined, adapter => adapter.clear());
   }
 
   keys(): string[] {
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
-    }
-    return [...this.results.keys()];
+    return this.liveEntries().map(([key]) => key);
   }
 
   /**
    * Get the count of stored results
    */
   size(): number {
-    if (this.useSharedStore) {
-      this.loadFromSharedStore();
+    return this.storedKeys().length;
+  }
+
+  /**
+   * Read every result of an asynchronous adapter that is newer than the one in this process.
+   * Returns how many were read; always 0 with a synchronous adapter.
+   */
+  async load(): Promise<number> {
+    if (!this.asyncAdapter) return 0;
+
+    let count = 0;
+    for (const key of await this.asyncAdapter.list()) {
+      if (this.mergeNewer(key, await this.asyncAdapter.get(key))) count++;
     }
-    return this.results.size;
+    if (count > 0) {
+      this.hooks?.onCacheLoaded?.({ count });
+    }
+    return count;
   }
 
-  // Shared store operations for cross-process communication
-  private loadFromSharedStore(): void {
-    try {
-      if (fs.existsSync(this.sharedStorePath)) {
-        const data = fs.readFileSync(this.sharedStorePath, 'utf-8');
-        const parsed: SerializedStore = JSON.parse(data);
-        
-        let loadedCount = 0;
-        // Merge with existing results (shared store takes precedence for new keys)
-        for (const [key, value] of Object.entries(parsed.results)) {
-          if (!this.results.has(key) || this.results.get(key)?.status === 'pending') {
-            this.results.set(key, value);
-            loadedCount++;
-          }
-        }
-        
-        if (loadedCount > 0) {
-          this.hooks?.onCacheLoaded?.({ count: loadedCount });
-        }
-      }
-    } catch {
-      // Ignore read errors - file might be locked or corrupted
+  /**
+   * Wait until every write to an asynchronous adapter has finished.
+   * Writes that failed are reported through `onCacheSaveFailed` rather than thrown.
+   */
+  async flush(): Promise<void> {
+    await this.asyncWrites;
+  }
+
+  // Storage operations, through the adapter and the results it failed to store
+  private stored(key: string): TestResult | undefined {
+    return this.unsaved.get(key) ?? this.adapter.get(key);
+  }
+
+  private storedKeys(): string[] {
+    return [...new Set([...this.adapter.list(), ...this.unsaved.keys()])];
+  }
+
+  private entries(): Array<[string, TestResult]> {
+    return this.storedKeys().flatMap(key => {
+      const result = this.stored(key);
+      return result ? [[key, result] as [string, TestResult]] : [];
+    });
+  }
+
+  /** Entries that have not expired */
+  private liveEntries(): Array<[string, TestResult]> {
+    return this.entries().filter(([key, result]) => !this.isExpired(key, result, this.maxAge));
+  }
+
+  private read(key: string, options?: ResultReadOptions): TestResult | undefined {
+    const result = this.stored(key);
+    if (!result || this.isExpired(key, result, options?.maxAge ?? this.maxAge)) return undefined;
+    return result;
+  }
+
+  private isExpired(key: string, result: TestResult, maxAge: number): boolean {
+    const age = Date.now() - result.timestamp;
+    if (result.status === 'running' || age <= maxAge) return false;
+
+    const expiration = `${key}:${result.timestamp}`;
+    if (!this.reportedExpirations.has(expiration)) {
+      this.reportedExpirations.add(expiration);
+      this.hooks?.onCacheExpired?.({ testKey: key, age, maxAge });
     }
+    return true;
   }
 
-  private saveToSharedStore(): void {
-    try {
-      // Read existing data first to merge
-      let existing: SerializedStore = { results: {} };
-      try {
-        if (fs.existsSync(this.sharedStorePath)) {
-          existing = JSON.parse(fs.readFileSync(this.sharedStorePath, 'utf-8'));
-        }
-      } catch {
-        // Ignore read errors
-      }
+  /** Whether the source of the test a result was produced by changed since it was stored */
+  private isOutdated(key: string, result: TestResult): boolean {
+    if (!result.source || isSourceCurrent(result.source)) return false;
+    this.hooks?.onCacheInvalidated?.({ testKey: key, file: result.source.file });
+    return true;
+  }
 
-      // Merge current results with existing
-      const merged: SerializedStore = {
-        results: {
-          ...existing.results,
-          ...Object.fromEntries(
-            [...this.results.entries()].map(([k, v]) => [k, {
-              status: v.status,
-              data: v.data,
-              timestamp: v.timestamp,
-              // Don't serialize error objects
-            }])
-          ),
-        },
-      };
-
-      fs.writeFileSync(this.sharedStorePath, JSON.stringify(merged, null, 2));
-      this.hooks?.onCacheSaved?.({ count: this.results.size });
-    } catch {
-      // Ignore write errors
+  private write(key: string, result: TestResult): void {
+    if (this.persist(key, () => this.adapter.set(key, result))) {
+      this.unsaved.delete(key);
+    } else {
+      this.unsaved.set(key, result);
     }
+    this.writeAsync(key, result);
   }
 
-  private clearSharedStore(): void {
+  /**
+   * Run a change of the adapter. A failure, such as data that cannot be encoded or a lock
+   * that cannot be taken, is reported rather than thrown; returns whether it succeeded.
+   */
+  private persist(key: string | undefined, change: () => void): boolean {
     try {
-      if (fs.existsSync(this.sharedStorePath)) {
-        fs.unlinkSync(this.sharedStorePath);
-      }
-    } catch {
-      // Ignore delete errors
+      change();
+      return true;
+    } catch (error) {
+      this.reportSaveFailure(key, error);
+      return false;
+    }
+  }
+
+  private readonly reportSaveFailure = (testKey: string | undefined, error: unknown): void => {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    if (this.hooks?.onCacheSaveFailed) {
+      this.hooks.onCacheSaveFailed({ testKey, error: failure });
+    } else {
+      console.warn(`Could not persist ${testKey ? `result "${testKey}"` : 'the result store'}: ${failure.message}`);
+    }
+  };
+
+  private writeAsync(key: string, result: TestResult): void {
+    this.enqueueAsync(key, adapter => adapter.set(key, result));
+  }
+
+  private enqueueAsync(key: string | undefined, write: (adapter: AsyncRelayStoreAdapter) => Promise<void>): void {
+    const adapter = this.asyncAdapter;
+    if (!adapter) return;
+    this.asyncWrites = this.asyncWrites
+      .then(() => write(adapter))
+      .catch(error => { this.reportSaveFailure(key, error); });
+  }
+
+  /**
+   * Keep a result read from the asynchronous adapter when it is newer than the local one.
+   * One whose test source changed is deleted from the adapter instead.
+   */
+  private mergeNewer(key: string, result: TestResult | undefined): boolean {
+    if (!result) return false;
+    if (this.isOutdated(key, result)) {
+      this.enqueueAsync(key, adapter => adapter.delete(key));
+      return false;
+    }
+    const existing = this.stored(key);
+    if (existing && existing.timestamp >= result.timestamp) return false;
+    this.adapter.set(key, result);
+    return true;
+  }
+
+  private readonly reportCorruption = (filePath: string, error: Error): void => {
+    this.hooks?.onCacheCorrupted?.({ filePath, error });
+  };
+
+  private useFileAdapter(filePath: string): void {
+    if (this.adapterFilePath === filePath) return;
+    this.asyncAdapter = undefined;
+    this.switchAdapter(createFileAdapter(filePath, { onCorrupted: this.reportCorruption }));
+    this.adapterFilePath = filePath;
+    this.persistent = true;
+  }
+
+  /**
+   * Replace the adapter, copying the results stored so far.
+   * They take precedence over results with the same key in the new adapter.
+   * Results of the new adapter whose test source changed are discarded.
+   */
+  private switchAdapter(next: RelayStoreAdapter): void {
+    for (const key of next.list()) {
+      const result = next.get(key);
+      if (result && this.isOutdated(key, result)) this.persist(key, () => next.delete(key));
+    }
+    const loadedCount = next.list().length;
+    const current = this.entries();
+    this.unsaved.clear();
+    for (const [key, result] of current) {
+      if (!this.persist(key, () => next.set(key, result))) this.unsaved.set(key, result);
+    }
+    this.adapter = next;
+    this.adapterFilePath = undefined;
+
+    if (loadedCount > 0) {
+      this.hooks?.onCacheLoaded?.({ count: loadedCount });
+    }
+  }
+
+  private notifySaved(): void {
+    if (this.persistent && this.hooks?.onCacheSaved) {
+      this.hooks.onCacheSaved({ count: this.size() });
     }
   }
 }
 
 // Singleton instance with shared store enabled for Playwright runs
-export const resultStore = new ResultStore(isPlaywrightRun, ENV_STORE_PATH);
+export const resultStore = new ResultStore(isPlaywrightRun, RUN_DIR ? getRunStorePath(RUN_DIR) : ENV_STORE_PATH);
 export { ResultStore };
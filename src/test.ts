@@ -4,41 +4,90 @@
  */
 
 import { test as base, expect as playwrightExpect } from '@playwright/test';
-import type { TestInfo as PlaywrightTestInfo } from '@playwright/test';
-import type { Relay, DependencyDefinition, RelayConfig } from './types.js';
+import type {
+  TestInfo as PlaywrightTestInfo,
+  TestDetails,
+  PlaywrightTestArgs,
+  PlaywrightTestOptions,
+  PlaywrightWorkerArgs,
+  PlaywrightWorkerOptions,
+} from '@playwright/test';
+import type { Relay, DependencyDefinition, DiscoveredTest, RelayConfig } from './types.js';
 import {
   createRelay,
   storeTestResult,
   setRelayConfig,
   getRelayConfig,
 } from './relay.js';
-import { parseDependsValue, parseTestFile } from './parser.js';
+import {
+  parseDependsValue,
+  discoverTestsInFile,
+  mergeDependencies,
+  declaredAt,
+  resolveDependencies,
+  dataKey,
+  getPathKey,
+} from './parser.js';
 import { resultStore } from './store.js';
-import { executeAllDependencies, clearModuleCache } from './executor.js';
+import { getResultSource } from './fingerprint.js';
+import { executeAllDependencies, clearModuleCache, setPlaywrightRunContext } from './executor.js';
+import { setDependencyFixtureOptions } from './fixtures.js';
+import { RELAY_RESULT_ATTACHMENT } from './report.js';
+import { encodeValue } from './serializer.js';
+import type { RelayResultPayload } from './report.js';
 
-// Cache for parsed JSDoc dependencies per file
-const jsDocDepsCache = new Map<string, Map<string, DependencyDefinition[]>>();
+// Cache for discovered test declarations per file
+const jsDocDepsCache = new Map<string, DiscoveredTest[]>();
 
-function getJsDocDependencies(filePath: string, testTitle: string): DependencyDefinition[] {
-  if (!filePath) return [];
-  
+function getDiscoveredTests(filePath: string): DiscoveredTest[] {
   if (!jsDocDepsCache.has(filePath)) {
     try {
-      const parsed = parseTestFile(filePath);
-      jsDocDepsCache.set(filePath, parsed);
+      jsDocDepsCache.set(filePath, discoverTestsInFile(filePath));
     } catch {
-      // If file cannot be parsed, cache empty map
-      jsDocDepsCache.set(filePath, new Map());
+      // If file cannot be parsed, cache empty list
+      jsDocDepsCache.set(filePath, []);
     }
   }
+  return jsDocDepsCache.get(filePath)!;
+}
+
+function findDeclaration(
+  filePath: string,
+  testTitle: string,
+  describePath: string[] = []
+): DiscoveredTest | undefined {
+  if (!filePath) return undefined;
   
-  return jsDocDepsCache.get(filePath)?.get(testTitle) ?? [];
+  const candidates = getDiscoveredTests(filePath).filter(t => t.title === testTitle);
+  // Prefer the declaration in the same describe block when titles repeat across suites
+  return candidates.find(t => t.describePath.join(' > ') === describePath.join(' > '))
+    ?? candidates[0];
 }
 
 export interface RelayFixtures {
   relay: Relay;
 }
 
+/**
+ * Test details accepted by the relay `test`.
+ * `depends` takes the same values as `@depends` and is read from the source,
+ * so it must be written as literals or file-level constants.
+ */
+export type RelayTestDetails = TestDetails & {
+  depends?: string | string[];
+};
+
+type RelayTestArgs = PlaywrightTestArgs & PlaywrightTestOptions & RelayFixtures
+  & PlaywrightWorkerArgs & PlaywrightWorkerOptions;
+
+type DeclareTestWithDetails = (
+  title: string,
+  details: RelayTestDetails,
+  body: (args: RelayTestArgs, testInfo: PlaywrightTestInfo) => Promise<void> | void
+) => void;
+
+type DeclareSuiteWithDetails = (title: string, details: RelayTestDetails, callback: () => void) => void;
+
 function extractDependencies(testInfo: PlaywrightTestInfo): DependencyDefinition[] {
   // 1. Get dependencies from Playwright annotations
   const annotationDeps = testInfo.annotations
@@ -46,20 +95,12 @@ function extractDependencies(testInfo: PlaywrightTestInfo): DependencyDefinition
     .map(a => parseDependsValue(a.description as string));
   
   // 2. Get dependencies from JSDoc comments in source file
-  const jsDocDeps = getJsDocDependencies(testInfo.file, testInfo.title);
+  const describePath = testInfo.titlePath.slice(1, -1);
+  const jsDocDeps = findDeclaration(testInfo.file, testInfo.title, describePath)?.dependencies ?? [];
   
   // 3. Merge both sources, avoiding duplicates by fullKey
-  const seen = new Set<string>();
-  const allDeps: DependencyDefinition[] = [];
-  
-  for (const dep of [...annotationDeps, ...jsDocDeps]) {
-    if (!seen.has(dep.fullKey)) {
-      seen.add(dep.fullKey);
-      allDeps.push(dep);
-    }
-  }
-  
-  return allDeps;
+  //    (JSDoc deps already include those inherited from enclosing describe blocks)
+  return resolveDependencies(mergeDependencies(annotationDeps, jsDocDeps), testInfo.file, getDiscoveredTests);
 }
 
 function getTestKey(testInfo: PlaywrightTestInfo): string {
@@ -76,15 +117,19 @@ function mapTestStatus(status: string | undefined): 'passed' | 'failed' | 'skipp
   }
 }
 
-export const test = base.extend<RelayFixtures>({
+const extendedTest = base.extend<RelayFixtures>({
   relay: async ({}, use, testInfo) => {
     const testKey = getTestKey(testInfo);
     
     // Ensure cache is loaded when persistCache is enabled
     // This is critical for cross-project dependencies in Playwright
     const relayConfig = getRelayConfig();
-    if (relayConfig.persistCache && !resultStore.isInitialized()) {
-      resultStore.initialize({ persistCache: true, cacheFilePath: relayConfig.cacheFilePath });
+    if ((relayConfig.persistCache || relayConfig.storeAdapter) && !resultStore.isInitialized()) {
+      resultStore.initialize({
+        persistCache: relayConfig.persistCache,
+        cacheFilePath: relayConfig.cacheFilePath,
+        adapter: relayConfig.storeAdapter,
+      });
     }
     
     // Auto-set namespace based on baseURL to isolate data between different environments
@@ -101,12 +146,21 @@ export const test = base.extend<RelayFixtures>({
     resultStore.set(testKey, 'running');
     resultStore.set(testInfo.title, 'running');
 
-    const relay = createRelay(testInfo.file);
     const deps = extractDependencies(testInfo);
+    const relay = createRelay(testInfo.file, deps);
 
     // Execute all dependencies before the test runs
     // This handles the case when running with --grep and dependencies aren't scheduled
     if (deps.length > 0 && testInfo.file) {
+      // Dependencies run on demand get fixtures configured like this project
+      setDependencyFixtureOptions(testInfo.project.use);
+      // Subprocess dependencies run in the same config and project, so baseURL and namespace match
+      setPlaywrightRunContext({
+        configFile: testInfo.config.configFile,
+        projectName: testInfo.project.name,
+        headed: testInfo.project.use.headless === false,
+        timeout: testInfo.project.timeout,
+      });
       try {
         await executeAllDependencies(deps, testInfo.file);
       } catch (error) {
@@ -121,15 +175,17 @@ export const test = base.extend<RelayFixtures>({
 
     // Check if any dependency failed or is still pending
     for (const dep of deps) {
+      if (dep.optional) continue;
+      
       const depStatus = relay.status(dep.fullKey);
       
       if (depStatus === 'failed') {
         const { onDependencyFailure } = getRelayConfig();
         if (onDependencyFailure === 'skip') {
-          testInfo.skip(true, `Dependency "${dep.fullKey}" failed`);
+          testInfo.skip(true, `Dependency "${dep.fullKey}" failed${declaredAt(dep)}`);
           return;
         }
-        throw new Error(`Dependency "${dep.fullKey}" failed`);
+        throw new Error(`Dependency "${dep.fullKey}" failed${declaredAt(dep)}`);
       }
       
       if (depStatus === 'pending') {
@@ -137,7 +193,8 @@ export const test = base.extend<RelayFixtures>({
         const errorMsg = `Dependency "${dep.fullKey}" was not executed. ` +
           (dep.file 
             ? `Cross-file dependencies require both files to be included in the same test run.`
-            : `Make sure the dependency test exists and runs before this test.`);
+            : `Make sure the dependency test exists and runs before this test.`) +
+          declaredAt(dep);
         
         if (onDependencyFailure === 'skip') {
           testInfo.skip(true, errorMsg);
@@ -155,9 +212,70 @@ export const test = base.extend<RelayFixtures>({
       resultStore.set(testKey, status);
       resultStore.set(testInfo.title, status);
     }
+
+    // Record the source behind the result, so a persisted copy is discarded once it changes
+    const source = getResultSource(testInfo.file, testKey);
+    if (source) {
+      resultStore.setSource(testKey, source);
+      resultStore.setSource(testInfo.title, source);
+    }
+
+    // Publish the result under the file's path, which path-qualified dependencies look up,
+    // and under every data name the test provides
+    const declaration = findDeclaration(testInfo.file, testInfo.title, testInfo.titlePath.slice(1, -1));
+    const result = resultStore.get(testKey);
+    if (result) {
+      const pathKeys = testInfo.file
+        ? [getPathKey(testInfo.file, testKey), getPathKey(testInfo.file, testInfo.title)]
+        : [];
+      for (const key of new Set(pathKeys)) {
+        resultStore.set(key, result.status, result.data, result.error, { source });
+      }
+      for (const name of declaration?.provides ?? []) {
+        resultStore.set(dataKey(name), result.status, result.data, undefined, { source });
+      }
+    }
+
+    // Results written to an asynchronous storage backend must land before the next test reads them
+    await resultStore.flush();
+
+    // Hand the data back to the executor that started this run as a subprocess
+    if (process.env.PLAYWRIGHT_RELAY_SUBPROCESS === 'true' && result?.data !== undefined) {
+      let body: string | undefined;
+      try {
+        const payload: RelayResultPayload = { data: encodeValue(result.data) };
+        body = JSON.stringify(payload);
+      } catch {
+        // Data that cannot be encoded, such as circular objects, stays in this process
+      }
+      if (body) {
+        await testInfo.attach(RELAY_RESULT_ATTACHMENT, { body, contentType: 'application/json' });
+      }
+    }
   },
 });
 
+type ExtendedTest = typeof extendedTest;
+type ExtendedDescribe = ExtendedTest['describe'];
+
+/** The relay `test`, accepting `depends` in test and suite details. */
+export type RelayTestType = ExtendedTest & DeclareTestWithDetails & {
+  only: ExtendedTest['only'] & DeclareTestWithDetails;
+  skip: ExtendedTest['skip'] & DeclareTestWithDetails;
+  fixme: ExtendedTest['fixme'] & DeclareTestWithDetails;
+  fail: ExtendedTest['fail'] & DeclareTestWithDetails;
+  describe: ExtendedDescribe & DeclareSuiteWithDetails & {
+    only: ExtendedDescribe['only'] & DeclareSuiteWithDetails;
+    skip: ExtendedDescribe['skip'] & DeclareSuiteWithDetails;
+    fixme: ExtendedDescribe['fixme'] & DeclareSuiteWithDetails;
+    serial: ExtendedDescribe['serial'] & DeclareSuiteWithDetails;
+    parallel: ExtendedDescribe['parallel'] & DeclareSuiteWithDetails;
+  };
+};
+
+// Playwright ignores unknown detail keys; `depends` is picked up by static discovery
+export const test = extendedTest as RelayTestType;
+
 export const expect = playwrightExpect;
 
 export function relayTest<T>(
@@ -0,0 +1,66 @@
+/**
+ * Timeouts and cancellation for dependencies run on demand
+ * @module timeout
+ */
+
+/** Error a dependency fails with when it runs longer than `dependencyTimeout` */
+export class DependencyTimeoutError extends Error {
+  constructor(
+    public readonly dependency: string,
+    public readonly timeout: number,
+    /** How long the dependency ran before it was cancelled (ms) */
+    public readonly elapsed: number
+  ) {
+    super(`Dependency "${dependency}" timed out after ${elapsed}ms (dependencyTimeout: ${timeout}ms)`);
+    this.name = 'DependencyTimeoutError';
+  }
+}
+
+/**
+ * Run `fn` with an AbortSignal that is aborted after `timeout` ms.
+ *
+ * On timeout the returned promise rejects with a DependencyTimeoutError, which is also the
+ * signal's reason; whatever `fn` settles with afterwards is discarded. The timer is cleared
+ * as soon as `fn` settles.
+ */
+export async function runWithTimeout<T>(
+  dependency: string,
+  timeout: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new DependencyTimeoutError(dependency, timeout, Date.now() - startedAt);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  const running = fn(controller.signal);
+  // A late rejection must not surface as an unhandled rejection
+  running.catch(() => undefined);
+
+  try {
+    return await Promise.race([running, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Reject as soon as `signal` is aborted, with its reason, instead of waiting for `promise`.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -3,6 +3,15 @@
  * @module types
  */
 
+import type {
+  APIRequestContext,
+  Browser,
+  BrowserContext,
+  Page,
+  PlaywrightTestOptions,
+  PlaywrightWorkerOptions,
+} from '@playwright/test';
+
 /** Possible states of a test in the relay system */
 export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
 
@@ -15,6 +24,73 @@ export interface TestResult<T = unknown> {
   data?: T;
   error?: Error;
   timestamp: number;
+  /** Run time of the test (ms), when known */
+  duration?: number;
+  /** Every attempt, in order, for tests run on demand or in a subprocess */
+  attempts?: TestAttempt[];
+  /** Test the result was produced by, when its source is known */
+  source?: ResultSource;
+}
+
+/** Test a stored result was produced by */
+export interface ResultSource {
+  /** Absolute path of the test file */
+  file: string;
+  /** Test title, prefixed with the titles of enclosing describe blocks ("suite > title") when known */
+  title: string;
+  /** Fingerprint of the test's source and its dependencies' sources when the result was stored */
+  hash: string;
+}
+
+/** One attempt at running a test */
+export interface TestAttempt {
+  status: TestStatus;
+  /** Run time of the attempt (ms) */
+  duration: number;
+  /** Message of the error a failed attempt threw */
+  error?: string;
+}
+
+/**
+ * Synchronous storage backend of the result store.
+ * Results hold live values; adapters that write them elsewhere encode them first.
+ */
+export interface RelayStoreAdapter {
+  get(key: string): TestResult | undefined;
+  set(key: string, result: TestResult): void;
+  delete(key: string): void;
+  /** Keys of all stored results */
+  list(): string[];
+  clear(): void;
+}
+
+/**
+ * Asynchronous storage backend, such as a database or a remote cache.
+ * The store keeps an in-memory copy and writes through to it in order.
+ */
+export interface AsyncRelayStoreAdapter {
+  /** Marks the adapter as asynchronous */
+  readonly async: true;
+  get(key: string): Promise<TestResult | undefined>;
+  set(key: string, result: TestResult): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Keys of all stored results */
+  list(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Custom serializer for values stored in the persisted cache.
+ * What `serialize` returns is encoded again, so it may contain Dates, Maps or other
+ * values with a serializer.
+ */
+export interface RelaySerializer<T = unknown> {
+  /** Unique name written to the cache file to mark values of this type */
+  tag: string;
+  /** Whether this serializer handles the value */
+  test: (value: unknown) => boolean;
+  serialize: (value: T) => unknown;
+  deserialize: (serialized: unknown) => T;
 }
 
 /** Lifecycle hook function type */
@@ -35,6 +111,8 @@ export interface DependencyValidationError {
   dependency: string;
   message: string;
   file?: string;
+  /** Where the failing dependency is declared */
+  location?: SourceLocation;
 }
 
 /** Lifecycle hooks configuration */
@@ -53,6 +131,14 @@ export interface LifecycleHooks {
   onCacheLoaded?: LifecycleHookWithData<{ count: number }>;
   /** Called when cache is saved to file */
   onCacheSaved?: LifecycleHookWithData<{ count: number }>;
+  /** Called when a stored result is discarded because the source of its test changed */
+  onCacheInvalidated?: LifecycleHookWithData<{ testKey: string; file: string }>;
+  /** Called when a stored result is read after it expired; it is treated as missing */
+  onCacheExpired?: LifecycleHookWithData<{ testKey: string; age: number; maxAge: number }>;
+  /** Called when a store file cannot be parsed; its contents are ignored */
+  onCacheCorrupted?: LifecycleHookWithData<{ filePath: string; error: Error }>;
+  /** Called when a result cannot be persisted, e.g. data that cannot be encoded; it is kept in memory */
+  onCacheSaveFailed?: LifecycleHookWithData<{ testKey?: string; error: Error }>;
 }
 
 /** Configuration options for playwright-relay */
@@ -65,16 +151,33 @@ export interface RelayConfig {
   persistCache?: boolean;
   /** Path for the cache file. Default: playwright-relay-store.json in temp dir */
   cacheFilePath?: string;
+  /** Age (ms) after which a stored result counts as missing and its test runs again. Default: Infinity */
+  cacheMaxAge?: number;
+  /** Storage backend for results, used instead of the cache file. Default: in memory, or the cache file with persistCache */
+  storeAdapter?: RelayStoreAdapter | AsyncRelayStoreAdapter;
   /** Validate dependencies before running tests. Default: false */
   validateDependencies?: boolean;
+  /** File suffixes recognized in "file > title" references. Default: .spec/.test with ts, tsx, mts, cts, js, jsx, mjs, cjs */
+  testFileSuffixes?: string[];
+  /** Retries for a dependency that fails when run on demand. Default: 0 */
+  dependencyRetries?: number;
+  /** Delay before the first retry (ms). Default: 1000 */
+  dependencyRetryDelay?: number;
+  /** Factor the delay grows by with every further retry. Default: 2 */
+  dependencyRetryBackoff?: number;
+  /** Maximum number of independent dependencies executed at the same time. Default: 4 */
+  maxConcurrentDependencies?: number;
+  /** Stream the output of Playwright subprocesses that run cross-file dependencies. Default: false */
+  debug?: boolean;
   /** Lifecycle hooks */
   hooks?: LifecycleHooks;
 }
 
 /** Required version of RelayConfig with all fields (except optional hooks) */
-export type RequiredRelayConfig = Required<Omit<RelayConfig, 'hooks' | 'cacheFilePath'>> & {
+export type RequiredRelayConfig = Required<Omit<RelayConfig, 'hooks' | 'cacheFilePath' | 'storeAdapter'>> & {
   hooks?: LifecycleHooks;
   cacheFilePath?: string;
+  storeAdapter?: RelayStoreAdapter | AsyncRelayStoreAdapter;
 };
 
 /** Dependency definition from @depends annotation */
@@ -85,6 +188,72 @@ export interface DependencyDefinition {
   testTitle: string;
   /** Full key: "file > title" or just "title" */
   fullKey: string;
+  /** Set when the title is a `*` wildcard or `/regex/`; matches every test it accepts */
+  pattern?: RegExp;
+  /** Soft dependency: runs if it can, but never causes the dependent to be skipped or failed */
+  optional?: boolean;
+  /** Local name for relay lookups inside the dependent test ("... as admin") */
+  alias?: string;
+  /** Where the dependency is declared, when parsed from source */
+  location?: SourceLocation;
+  /** Set for `@depends-data`: the data name whose producer this dependency refers to */
+  dataName?: string;
+  /** Retries when run on demand, overriding `dependencyRetries` ("... {retries: 2}") */
+  retries?: number;
+  /** Maximum age (ms) of a stored result that satisfies it, overriding `cacheMaxAge` ("... {ttl: 15m}") */
+  ttl?: number;
+}
+
+/** Metadata of an edge in the dependency graph */
+export interface DependencyEdge {
+  /** True when every declaration of this edge is an optional dependency */
+  optional: boolean;
+  /** Alias the dependent uses for this dependency */
+  alias?: string;
+  /** Where the dependency is declared (first declaration of the edge) */
+  location?: SourceLocation;
+}
+
+/** A `@depends-data` whose data name has no producer or several producers */
+export interface DataProviderIssue {
+  /** Id of the dependent test */
+  testId: string;
+  dataName: string;
+  /** Ids of the tests providing the data; empty when none does */
+  producers: string[];
+  /** Where the dependency is declared */
+  location?: SourceLocation;
+}
+
+/** Playwright modifier applied to a test declaration */
+export type TestModifier = 'only' | 'skip' | 'fixme' | 'fail';
+
+/** Position in a source file (1-based) */
+export interface SourceLocation {
+  /** File the location refers to, when known */
+  file?: string;
+  line: number;
+  column: number;
+}
+
+/** Test declaration discovered by the source parser */
+export interface DiscoveredTest {
+  /** Test title; unresolved template parts are kept as `${expression}` */
+  title: string;
+  /** True when the title contains template parts that cannot be resolved statically */
+  dynamic: boolean;
+  /** Titles of the enclosing test.describe blocks, outermost first */
+  describePath: string[];
+  /** Modifiers of the test and its enclosing describe blocks */
+  modifiers: TestModifier[];
+  /** Location of the test call */
+  location: SourceLocation;
+  /** SHA-256 of the source text of the test call */
+  sourceHash: string;
+  /** Dependencies from comments attached to the test call */
+  dependencies: DependencyDefinition[];
+  /** Data names declared with `@provides` */
+  provides: string[];
 }
 
 /** Test metadata in dependency graph */
@@ -93,6 +262,12 @@ export interface TestInfo {
   title: string;
   file: string;
   dependencies: DependencyDefinition[];
+  /** True when the title could not be resolved statically */
+  dynamic?: boolean;
+  /** Where the test is declared */
+  location?: SourceLocation;
+  /** Data names declared with `@provides` */
+  provides?: string[];
   fn?: (...args: unknown[]) => Promise<unknown> | unknown;
 }
 
@@ -117,9 +292,42 @@ export type RelayTestFn<T = void> = (
   fixtures: Record<string, unknown> & { relay: Relay }
 ) => Promise<T> | T;
 
+/** Context a dependency fixture is set up in */
+export interface DependencyFixtureInfo {
+  /** Title of the dependency being run */
+  title: string;
+  /** File the dependency is declared in */
+  file: string;
+  /** `use` options of the current Playwright project */
+  use: DependencyFixtureOptions;
+}
+
+/** `use` options of a Playwright project, including custom ones */
+export type DependencyFixtureOptions = Record<string, unknown> & Partial<PlaywrightTestOptions & PlaywrightWorkerOptions>;
+
+/** Fixtures a dependency fixture can destructure: the built-in ones and any registered */
+export type DependencyFixtures = Record<string, unknown> & {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+  request: APIRequestContext;
+};
+
+/**
+ * Fixture factory for dependencies run in-process, in Playwright's style:
+ * set up, pass the value to `use`, then tear down after `use` resolves.
+ * The first argument holds the fixtures the factory destructures.
+ */
+export type DependencyFixture<T = unknown, F extends Record<string, unknown> = DependencyFixtures> = (
+  fixtures: F,
+  use: (value: T) => Promise<void>,
+  info: DependencyFixtureInfo
+) => Promise<void>;
+
 /** Registered test entry */
 export interface RegisteredTest {
-  fn: () => Promise<unknown>;
+  /** Receives a signal that is aborted when the run times out */
+  fn: (signal: AbortSignal) => Promise<unknown>;
   dependencies: DependencyDefinition[];
 }
 
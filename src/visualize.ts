@@ -6,9 +6,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
-import { DependencyGraph } from './graph.js';
-import { parseTestFile, generateTestKey } from './parser.js';
-import type { TestInfo, DependencyDefinition } from './types.js';
+import { DependencyGraph, AmbiguousDependencyError } from './graph.js';
+import { discoverTestsInFile, findDependencyFiles, formatLocation, resolveAliasedTitle } from './parser.js';
+import type { TestInfo, DependencyDefinition, DataProviderIssue } from './types.js';
 
 export interface GraphOptions {
   /** Graph direction for Mermaid: 'TB', 'BT', 'LR', 'RL' */
@@ -24,65 +24,72 @@ export interface GraphResult {
   output: string;
   testCount: number;
   dependencyCount: number;
+  /** `@depends-data` names with no producer or several producers */
+  dataIssues: DataProviderIssue[];
 }
 
 /**
  * Build dependency graph from test files
+ * @throws AmbiguousDependencyError when a dependency's file name matches several files
  */
 export function buildGraphFromFiles(testFiles: string[]): DependencyGraph {
   const graph = new DependencyGraph();
   const allTests = new Map<string, TestInfo>();
+  const filePaths = testFiles.filter(file => fs.existsSync(file)).map(file => path.resolve(file));
+  const labels = createFileLabels(filePaths);
+  // Absolute path of the file each test was declared in
+  const testFilePaths = new Map<string, string>();
   
   // First pass: collect all tests
-  for (const filePath of testFiles) {
-    if (!fs.existsSync(filePath)) continue;
-    ``
+  for (const filePath of filePaths) {
     try {
-      const deps = parseTestFile(filePath);
-      const fileName = path.basename(filePath);
+      const fileLabel = labels.get(filePath)!;
       
-      for (const [title, dependencies] of deps) {
-        const id = generateTestKey(fileName, title);
+      for (const { title, dynamic, location, dependencies, provides } of discoverTestsInFile(filePath)) {
+        const id = `${fileLabel} > ${title}`;
+        if (allTests.has(id)) continue;
+        
         const testInfo: TestInfo = {
           id,
           title,
-          file: fileName,
+          file: fileLabel,
           dependencies,
+          location,
+          ...(provides.length > 0 && { provides }),
+          ...(dynamic && { dynamic }),
         };
         allTests.set(id, testInfo);
+        testFilePaths.set(id, filePath);
         graph.addTest(testInfo);
       }
-      
-      // Also add tests without dependencies
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const testMatches = content.matchAll(/test\s*\(\s*(['"`])([^'"`]+)\1/g);
-      
-      for (const match of testMatches) {
-        const title = match[2];
-        const id = generateTestKey(fileName, title);
-        
-        if (!allTests.has(id)) {
-          const testInfo: TestInfo = {
-            id,
-            title,
-            file: fileName,
-            dependencies: [],
-          };
-          allTests.set(id, testInfo);
-          graph.addTest(testInfo);
-        }
-      }
     } catch {
       // Skip files that can't be parsed
     }
   }
   
+  const titlesIn = (label: string | undefined) =>
+    [...allTests.values()].filter(info => !label || info.file === label).map(info => info.title);
+  
   // Second pass: add dependency edges
   for (const [id, testInfo] of allTests) {
-    for (const dep of testInfo.dependencies) {
-      const depId = resolveDepId(dep, testInfo.file, allTests);
-      if (depId && graph.hasTest(depId)) {
-        graph.addDependency(id, depId);
+    for (const declared of testInfo.dependencies) {
+      const targetFile = resolveTargetFile(id, declared, testFilePaths.get(id)!, filePaths);
+      const targetLabel = targetFile ? labels.get(targetFile) : undefined;
+      // "log in as admin" may be the title of a test rather than "log in" aliased as admin
+      const dep = declared.alias ? resolveAliasedTitle(declared, titlesIn(targetLabel)) : declared;
+      
+      // Data dependencies resolve to whichever test provides the data (in the named file, if any)
+      if (dep.dataName) {
+        const candidates = [...allTests.values()]
+          .filter(info => info.id !== id && (!dep.file || info.file === targetLabel));
+        graph.addDataDependency(id, dep, candidates);
+        continue;
+      }
+      
+      for (const depId of resolveDepIds(dep, targetLabel, allTests)) {
+        if (depId !== id && graph.hasTest(depId)) {
+          graph.addDependency(id, depId, { optional: dep.optional, alias: dep.alias, location: dep.location });
+        }
       }
     }
   }
@@ -90,30 +97,71 @@ export function buildGraphFromFiles(testFiles: string[]): DependencyGraph {
   return graph;
 }
 
-function resolveDepId(
-  dep: DependencyDefinition, 
-  currentFile: string, 
-  allTests: Map<string, TestInfo>
-): string | null {
-  // Try exact match first
-  if (allTests.has(dep.fullKey)) {
-    return dep.fullKey;
+/**
+ * Label files by basename, falling back to the cwd-relative path for basenames shared by several files.
+ */
+function createFileLabels(filePaths: string[]): Map<string, string> {
+  const basenameCounts = new Map<string, number>();
+  for (const filePath of filePaths) {
+    const name = path.basename(filePath);
+    basenameCounts.set(name, (basenameCounts.get(name) ?? 0) + 1);
   }
   
-  // Try with current file
-  const withCurrentFile = generateTestKey(currentFile, dep.testTitle);
-  if (allTests.has(withCurrentFile)) {
-    return withCurrentFile;
+  return new Map(filePaths.map(filePath => {
+    const name = path.basename(filePath);
+    const label = basenameCounts.get(name)! > 1
+      ? path.relative(process.cwd(), filePath).split(path.sep).join('/')
+      : name;
+    return [filePath, label];
+  }));
+}
+
+/**
+ * Resolve the file a dependency points to: the dependent's own file, or the referenced one.
+ */
+function resolveTargetFile(
+  testId: string,
+  dep: DependencyDefinition,
+  currentFile: string,
+  filePaths: string[]
+): string | undefined {
+  if (!dep.file) return currentFile;
+  
+  const candidates = findDependencyFiles(dep.file, currentFile, filePaths);
+  if (candidates.length > 1) {
+    throw new AmbiguousDependencyError(testId, dep.fullKey, candidates);
+  }
+  return candidates[0];
+}
+
+function resolveDepIds(
+  dep: DependencyDefinition, 
+  targetLabel: string | undefined, 
+  allTests: Map<string, TestInfo>
+): string[] {
+  if (targetLabel) {
+    // Try exact match in the target file first
+    const exactId = `${targetLabel} > ${dep.testTitle}`;
+    if (allTests.has(exactId)) {
+      return [exactId];
+    }
+    
+    // Pattern dependencies expand to every matching test in the target file
+    if (dep.pattern) {
+      return [...allTests.values()]
+        .filter(info => info.file === targetLabel && dep.pattern!.test(info.title))
+        .map(info => info.id);
+    }
   }
   
   // Try to find by title alone
   for (const [id, info] of allTests) {
     if (info.title === dep.testTitle) {
-      return id;
+      return [id];
     }
   }
   
-  return null;
+  return [];
 }
 
 /**
@@ -182,6 +230,7 @@ export function generateGraph(
     output,
     testCount: graph.getAllTestIds().length,
     dependencyCount,
+    dataIssues: graph.getDataIssues(),
   };
 }
 
@@ -196,18 +245,30 @@ function graphToJson(graph: DependencyGraph): object {
         id,
         title: test.title,
         file: test.file,
+        ...(test.location && { location: formatLocation(test.location) }),
+        ...(test.provides && { provides: test.provides }),
+        ...(test.dynamic && { dynamic: true }),
       });
     }
     
     for (const dep of graph.getDependencies(id)) {
+      const edge = graph.getEdge(id, dep);
       edges.push({
         from: dep,
         to: id,
+        ...(edge?.optional && { optional: true }),
+        ...(edge?.alias && { alias: edge.alias }),
+        ...(edge?.location && { location: formatLocation(edge.location) }),
       });
     }
   }
   
-  return { nodes, edges };
+  const dataIssues = graph.getDataIssues().map(issue => ({
+    ...issue,
+    location: issue.location && formatLocation(issue.location),
+  }));
+  
+  return { nodes, edges, ...(dataIssues.length > 0 && { dataIssues }) };
 }
 
 /**
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createMemoryAdapter, createFileAdapter, createDirectoryAdapter } from '../src/adapters';
+import type { RelayStoreAdapter } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('store adapters', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-adapters-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => RelayStoreAdapter]> = [
+    ['memory', () => createMemoryAdapter()],
+    ['file', () => createFileAdapter(path.join(dir, 'store.json'))],
+    ['directory', () => createDirectoryAdapter(path.join(dir, 'results'))],
+  ];
+
+  describe.each(backends)('%s', (_, create) => {
+    it('should get, list and delete results', () => {
+      const adapter = create();
+      const key = 'auth/setup.spec.ts > log in as "admin"';
+
+      adapter.set(key, { status: 'passed', data: { since: new Date(0) }, timestamp: 1 });
+      adapter.set('other', { status: 'failed', timestamp: 2 });
+
+      expect(adapter.get(key)).toEqual({ status: 'passed', data: { since: new Date(0) }, timestamp: 1 });
+      expect(adapter.list().sort()).toEqual([key, 'other']);
+
+      adapter.delete('other');
+      expect(adapter.get('other')).toBeUndefined();
+      expect(adapter.get('toString')).toBeUndefined();
+
+      adapter.clear();
+      expect(adapter.list()).toEqual([]);
+    });
+  });
+
+  it('should share results between file adapters of the same file', () => {
+    const filePath = path.join(dir, 'store.json');
+    const worker1 = createFileAdapter(filePath);
+    const worker2 = createFileAdapter(filePath);
+
+    worker1.set('login', { status: 'passed', timestamp: 1 });
+    expect(worker2.get('login')?.status).toBe('passed');
+
+    worker2.set('login', { status: 'failed', timestamp: 2 });
+    expect(worker1.get('login')?.status).toBe('failed');
+  });
+
+  it('should skip and report corrupted files of the directory adapter', () => {
+    const corrupted: string[] = [];
+    const adapter = createDirectoryAdapter(dir, { onCorrupted: filePath => { corrupted.push(filePath); } });
+    adapter.set('login', { status: 'passed', timestamp: 1 });
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{');
+
+    expect(adapter.list()).toEqual(['login']);
+    expect(corrupted).toEqual([path.join(dir, 'broken.json')]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { forEachConcurrent, runLimited } from '../src/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('forEachConcurrent', () => {
+  it('should keep at most limit calls in flight', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const seen: number[] = [];
+
+    await forEachConcurrent([1, 2, 3, 4, 5], 2, async item => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      seen.push(item);
+      active--;
+    });
+
+    expect(maxActive).toBe(2);
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should not start items after a failure and throw the earliest error', async () => {
+    const started: number[] = [];
+
+    const run = forEachConcurrent([1, 2, 3, 4], 2, async item => {
+      started.push(item);
+      await delay(item === 1 ? 10 : 1);
+      throw new Error(`failed ${item}`);
+    });
+
+    await expect(run).rejects.toThrow('failed 1');
+    expect(started).toEqual([1, 2]);
+  });
+});
+
+describe('runLimited', () => {
+  it('should keep at most limit tasks in flight across separate calls', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active--;
+    };
+
+    await Promise.all([1, 2, 3].map(async () => {
+      await Promise.all([runLimited(2, task), runLimited(2, task)]);
+      await runLimited(2, task);
+    }));
+
+    expect(maxActive).toBe(2);
+  });
+});
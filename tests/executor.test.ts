@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  executeDependency,
+  executeAllDependencies,
+  clearModuleCache,
+  setPlaywrightRunContext,
+  DependencyProcessError,
+} from '../src/executor';
+import { parseDependsValue } from '../src/parser';
+import { resultStore } from '../src/store';
+import { setRelayConfig } from '../src/relay';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('cross-file dependencies via Playwright subprocess', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-executor-'));
+  const currentFile = path.join(rootDir, 'main.spec.ts');
+  const title = 'create "admin" $(whoami) & `id`';
+
+  beforeEach(() => {
+    fs.writeFileSync(path.join(rootDir, 'package.json'), '{}');
+    // Lets the subprocess resolve @playwright/test from this project
+    fs.symlinkSync(path.join(process.cwd(), 'node_modules'), path.join(rootDir, 'node_modules'), 'dir');
+    fs.writeFileSync(path.join(rootDir, 'setup.spec.ts'), `
+import { test } from '@playwright/test';
+import { resultStore } from ${JSON.stringify(path.join(process.cwd(), 'src', 'store.ts'))};
+
+test.describe('setup', () => {
+  test(${JSON.stringify(title)}, async () => {});
+});
+
+test('store session', async () => {
+  resultStore.set('session', 'passed', { token: 'abc' });
+  resultStore.set('session run', 'passed', process.env.PLAYWRIGHT_RELAY_RUN_DIR);
+});
+
+test('store session later', async () => {
+  resultStore.set('stray', 'passed', true);
+});
+
+test('session', async () => {
+  resultStore.set('setup session', 'passed', true);
+});
+
+test('store project', async () => {
+  const { project } = test.info();
+  resultStore.set('project', 'passed', { name: project.name, baseURL: project.use.baseURL, timeout: project.timeout });
+});
+`);
+    fs.writeFileSync(path.join(rootDir, 'accounts.spec.ts'), `
+import { test } from '@playwright/test';
+import { resultStore } from ${JSON.stringify(path.join(process.cwd(), 'src', 'store.ts'))};
+
+/**
+ * @depends setup.spec.ts > store session
+ */
+test('create account', async () => {
+  resultStore.set('account', 'passed', {
+    session: resultStore.getData('session'),
+    runDir: process.env.PLAYWRIGHT_RELAY_RUN_DIR,
+  });
+});
+
+test('list accounts', async () => {
+  resultStore.set('accounts run', 'passed', process.env.PLAYWRIGHT_RELAY_RUN_DIR);
+});
+
+test('session', async () => {
+  resultStore.set('accounts session', 'passed', true);
+});
+`);
+    fs.mkdirSync(path.join(rootDir, 'admin'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'admin', 'login.spec.ts'), `
+import { test } from '@playwright/test';
+import { resultStore } from ${JSON.stringify(path.join(process.cwd(), 'src', 'store.ts'))};
+
+test('log in', async () => {
+  resultStore.set('admin ran', 'passed', true);
+});
+
+test('reject login', async () => {
+  throw new Error('wrong password');
+});
+`);
+    resultStore.clear();
+    clearModuleCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(rootDir, 'node_modules'), { force: true });
+    setRelayConfig({});
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should pass titles with shell metacharacters to Playwright unchanged', async () => {
+    const dep = parseDependsValue(`setup.spec.ts > ${title}`);
+
+    await executeDependency(dep, currentFile);
+
+    expect(resultStore.getStatus(`setup.spec.ts > ${title}`)).toBe('passed');
+    expect(resultStore.get(`setup > ${title}`)).toMatchObject({ status: 'passed', duration: expect.any(Number) });
+  }, 60000);
+
+  it('should read back results the child stored in its private run directory', async () => {
+    const runDirs = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('playwright-relay-run-'));
+    const before = runDirs();
+    const dep = parseDependsValue('setup.spec.ts > store session');
+
+    await executeDependency(dep, currentFile);
+
+    expect(resultStore.getData('session')).toEqual({ token: 'abc' });
+    expect(runDirs()).toEqual(before);
+  }, 60000);
+
+  it('should run independent dependencies of several files in one subprocess', async () => {
+    await executeAllDependencies([
+      parseDependsValue('setup.spec.ts > store session'),
+      parseDependsValue('accounts.spec.ts > list accounts'),
+    ], currentFile);
+
+    expect(resultStore.getStatus('setup.spec.ts > store session')).toBe('passed');
+    expect(resultStore.getStatus('accounts.spec.ts > list accounts')).toBe('passed');
+    expect(resultStore.getData('accounts run')).toBe(resultStore.getData('session run'));
+    // Titles are matched exactly, not as a substring of other titles
+    expect(resultStore.has('stray')).toBe(false);
+  }, 60000);
+
+  it('should run only the tests a dependency names, not others ending in or sharing its title', async () => {
+    await executeAllDependencies([
+      parseDependsValue('setup.spec.ts > session'),
+      parseDependsValue('accounts.spec.ts > list accounts'),
+    ], currentFile);
+
+    expect(resultStore.getData('setup session')).toBe(true);
+    expect(resultStore.has('accounts session')).toBe(false);
+    expect(resultStore.has('session run')).toBe(false);
+    expect(resultStore.has('stray')).toBe(false);
+
+    resultStore.clear();
+    clearModuleCache();
+    await executeDependency(parseDependsValue('setup.spec.ts > session'), currentFile);
+
+    expect(resultStore.getData('setup session')).toBe(true);
+    expect(resultStore.has('session run')).toBe(false);
+  }, 60000);
+
+  it('should run transitive dependencies in an earlier subprocess and share their results', async () => {
+    await executeAllDependencies([parseDependsValue('accounts.spec.ts > create account')], currentFile);
+
+    const account = resultStore.getData<{ session: unknown; runDir: string }>('account')!;
+    expect(account.session).toEqual({ token: 'abc' });
+    expect(account.runDir).not.toBe(resultStore.getData('session run'));
+  }, 60000);
+
+  it('should not take the result of a file with the same basename for a path dependency', async () => {
+    for (const key of ['log in', 'login.spec.ts > log in', 'customer/login.spec.ts > log in']) {
+      resultStore.set(key, 'passed', { who: 'customer' });
+    }
+
+    await executeDependency(parseDependsValue('admin/login.spec.ts > log in'), currentFile);
+
+    expect(resultStore.getData('admin ran')).toBe(true);
+    expect(resultStore.getStatus('admin/login.spec.ts > log in')).toBe('passed');
+  }, 60000);
+
+  it('should run the dependency with the config and project of the current run', async () => {
+    // Not a default config name, so the child only finds it through --config
+    const configFile = path.join(rootDir, 'relay.config.ts');
+    fs.writeFileSync(configFile, `
+export default {
+  projects: [
+    { name: 'staging', use: { baseURL: 'https://staging.example.com' } },
+    { name: 'production', use: { baseURL: 'https://example.com' } },
+  ],
+};
+`);
+    setPlaywrightRunContext({ configFile, projectName: 'staging', timeout: 12345 });
+
+    await executeDependency(parseDependsValue('setup.spec.ts > store project'), currentFile);
+
+    expect(resultStore.getData('project')).toEqual({
+      name: 'staging',
+      baseURL: 'https://staging.example.com',
+      timeout: 12345,
+    });
+  }, 60000);
+
+  it('should stop the subprocess after dependencyTimeout', async () => {
+    setRelayConfig({ dependencyTimeout: 50 });
+    const dep = parseDependsValue(`setup.spec.ts > ${title}`);
+
+    const error = await executeDependency(dep, currentFile).catch(e => e);
+
+    expect(error).toBeInstanceOf(DependencyProcessError);
+    expect(error.message).toContain('did not finish within 50ms');
+  });
+
+  it('should surface why a dependency failed in its subprocess', async () => {
+    const error = await executeDependency(parseDependsValue('admin/login.spec.ts > reject login'), currentFile)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(DependencyProcessError);
+    expect(error.message).toContain('Dependency "admin/login.spec.ts > reject login" failed during execution');
+    expect(error.message).toContain('wrong password');
+    expect(error.exitCode).toBe(1);
+  }, 60000);
+
+  it('should not fail on an optional dependency whose subprocess fails', async () => {
+    setRelayConfig({ dependencyTimeout: 50 });
+
+    await expect(executeAllDependencies(
+      [parseDependsValue('setup.spec.ts > store session (optional)')],
+      currentFile
+    )).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getResultSource, isSourceCurrent, clearFingerprintCache } from '../src/fingerprint';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('fingerprint', () => {
+  let dir: string;
+  let authFile: string;
+  let ordersFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-fingerprint-'));
+    authFile = path.join(dir, 'auth.spec.ts');
+    ordersFile = path.join(dir, 'orders.spec.ts');
+    fs.writeFileSync(authFile, `
+test('login', async () => {
+  return { token: 'abc' };
+});
+`);
+    fs.writeFileSync(ordersFile, `
+test.describe('orders', () => {
+  /**
+   * @depends auth.spec.ts > login
+   */
+  test('create order', async () => {});
+});
+`);
+    clearFingerprintCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find tests by their title or describe path', () => {
+    const source = getResultSource(ordersFile, 'orders > create order');
+
+    expect(source).toEqual({ file: ordersFile, title: 'orders > create order', hash: expect.any(String) });
+    expect(getResultSource(ordersFile, 'create order')?.hash).toBe(source!.hash);
+    expect(getResultSource(ordersFile, 'missing')).toBeUndefined();
+  });
+
+  it('should stay current while nothing changes', () => {
+    const source = getResultSource(ordersFile, 'create order')!;
+
+    expect(isSourceCurrent(source)).toBe(true);
+  });
+
+  it('should change when the test changes', () => {
+    const source = getResultSource(authFile, 'login')!;
+
+    fs.writeFileSync(authFile, `
+test('login', async () => {
+  return { token: 'abc', expires: 60 };
+});
+`);
+
+    expect(isSourceCurrent(source)).toBe(false);
+  });
+
+  it('should change when a test it depends on changes', () => {
+    const source = getResultSource(ordersFile, 'create order')!;
+
+    fs.appendFileSync(authFile, `
+test('logout', async () => {});
+`);
+    expect(isSourceCurrent(source)).toBe(true);
+
+    fs.writeFileSync(authFile, `
+test('login', async () => {
+  return { accessToken: 'abc' };
+});
+`);
+    expect(isSourceCurrent(source)).toBe(false);
+  });
+
+  it('should not be current once the test or its file is gone', () => {
+    const source = getResultSource(authFile, 'login')!;
+
+    fs.rmSync(authFile);
+
+    expect(isSourceCurrent(source)).toBe(false);
+  });
+
+  it('should handle dependency cycles', () => {
+    fs.writeFileSync(authFile, `
+/**
+ * @depends orders.spec.ts > create order
+ */
+test('login', async () => {});
+`);
+
+    expect(isSourceCurrent(getResultSource(ordersFile, 'create order')!)).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { APIRequestContext } from '@playwright/test';
+import {
+  getFixtureNames,
+  runWithFixtures,
+  registerDependencyFixture,
+  clearDependencyFixtures,
+  setDependencyFixtureOptions,
+} from '../src/fixtures';
+
+describe('Dependency fixtures', () => {
+  const info = { title: 'create user', file: 'users.spec.ts' };
+
+  beforeEach(() => {
+    clearDependencyFixtures();
+    setDependencyFixtureOptions({});
+  });
+
+  describe('getFixtureNames', () => {
+    it('should read destructured fixture names', () => {
+      expect(getFixtureNames(async ({ page, request: api }: Record<string, unknown>) => [page, api])).toEqual(['page', 'request']);
+      expect(getFixtureNames(async function ({ relay }: Record<string, unknown>) { return relay; })).toEqual(['relay']);
+    });
+
+    it('should return no names when the first parameter is not destructured', () => {
+      expect(getFixtureNames(async (fixtures: Record<string, unknown>) => fixtures)).toEqual([]);
+      expect(getFixtureNames(async () => undefined)).toEqual([]);
+    });
+  });
+
+  describe('runWithFixtures', () => {
+    it('should set up custom fixtures with their own fixtures and tear them down in reverse', async () => {
+      const events: string[] = [];
+      registerDependencyFixture('db', async (_fixtures, use) => {
+        events.push('db up');
+        await use({ url: 'postgres://test' });
+        events.push('db down');
+      });
+      registerDependencyFixture<unknown, { db: { url: string } }>('users', async ({ db }, use, { title }) => {
+        events.push('users up');
+        await use({ db: db.url, title });
+        events.push('users down');
+      });
+
+      const result = await runWithFixtures(async ({ users, relay }: Record<string, unknown>) => {
+        events.push('test');
+        return { users, relay };
+      }, info, { relay: 'relay' });
+
+      expect(result).toEqual({ users: { db: 'postgres://test', title: 'create user' }, relay: 'relay' });
+      expect(events).toEqual(['db up', 'users up', 'test', 'users down', 'db down']);
+    });
+
+    it('should pass project use options as fixture values', async () => {
+      setDependencyFixtureOptions({ baseURL: 'https://api.test' });
+
+      const result = await runWithFixtures(async ({ baseURL }: Record<string, unknown>) => baseURL, info, {});
+
+      expect(result).toBe('https://api.test');
+    });
+
+    it('should provide a request context configured from the project and dispose it afterwards', async () => {
+      const server = http.createServer((req, res) => {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ path: req.url, token: req.headers['x-token'] }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      setDependencyFixtureOptions({ baseURL: `http://127.0.0.1:${port}`, extraHTTPHeaders: { 'x-token': 'abc' } });
+      let used!: APIRequestContext;
+
+      try {
+        const result = await runWithFixtures(async ({ request }: { request: APIRequestContext }) => {
+          used = request;
+          return (await request.get('/users')).json();
+        }, info, {});
+
+        expect(result).toEqual({ path: '/users', token: 'abc' });
+        await expect(used.get('/users')).rejects.toThrow();
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should tear down fixtures when the test fails', async () => {
+      let tornDown = false;
+      registerDependencyFixture('session', async (_fixtures, use) => {
+        await use('token');
+        tornDown = true;
+      });
+
+      await expect(runWithFixtures(async ({ session }: Record<string, unknown>) => {
+        throw new Error(`boom ${session}`);
+      }, info, {})).rejects.toThrow('boom token');
+      expect(tornDown).toBe(true);
+    });
+
+    it('should report fixtures that never call use', async () => {
+      registerDependencyFixture('broken', async () => {});
+
+      await expect(runWithFixtures(async ({ broken }: Record<string, unknown>) => broken, info, {}))
+        .rejects.toThrow('Fixture "broken" finished without calling use()');
+    });
+
+    it('should stop waiting and tear down fixtures when the signal aborts', async () => {
+      const events: string[] = [];
+      registerDependencyFixture('session', async (_fixtures, use) => {
+        await use('token');
+        events.push('session down');
+      });
+      const controller = new AbortController();
+
+      const run = runWithFixtures(({ session }: Record<string, unknown>) => new Promise(() => session), info, {}, controller.signal);
+      setTimeout(() => controller.abort(new Error('cancelled')), 5);
+
+      await expect(run).rejects.toThrow('cancelled');
+      expect(events).toEqual(['session down']);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   DependencyGraph, 
   CircularDependencyError,
 } from '../src/graph';
+import { parseDataDependency } from '../src/parser';
 import type { TestInfo } from '../src/types';
 
 describe('DependencyGraph', () => {
@@ -189,6 +190,62 @@ describe('DependencyGraph', () => {
     });
   });
 
+  describe('fromTests with patterns', () => {
+    it('should expand pattern dependencies to every matching test', () => {
+      const tests: TestInfo[] = [
+        { id: 'create admin', title: 'create admin', file: 'test.spec.ts', dependencies: [] },
+        { id: 'create editor', title: 'create editor', file: 'test.spec.ts', dependencies: [] },
+        { id: 'delete admin', title: 'delete admin', file: 'test.spec.ts', dependencies: [] },
+        {
+          id: 'list users',
+          title: 'list users',
+          file: 'test.spec.ts',
+          dependencies: [{ testTitle: 'create *', fullKey: 'create *', pattern: /^create .*$/ }],
+        },
+      ];
+
+      const newGraph = DependencyGraph.fromTests(tests);
+
+      expect(newGraph.getDependencies('list users').sort()).toEqual(['create admin', 'create editor']);
+    });
+  });
+
+  describe('fromTests with data dependencies', () => {
+    it('should link data names to the test that provides them', () => {
+      const tests: TestInfo[] = [
+        { id: 'create admin', title: 'create admin', file: 'test.spec.ts', dependencies: [], provides: ['adminUser'] },
+        { id: 'ban user', title: 'ban user', file: 'test.spec.ts', dependencies: [parseDataDependency('adminUser')] },
+      ];
+
+      const newGraph = DependencyGraph.fromTests(tests);
+
+      expect(newGraph.getDependencies('ban user')).toEqual(['create admin']);
+      expect(newGraph.getEdge('ban user', 'create admin')?.alias).toBe('adminUser');
+      expect(newGraph.getDataIssues()).toEqual([]);
+    });
+
+    it('should report data names with no or several producers', () => {
+      const tests: TestInfo[] = [
+        { id: 'seed a', title: 'seed a', file: 'test.spec.ts', dependencies: [], provides: ['catalog'] },
+        { id: 'seed b', title: 'seed b', file: 'test.spec.ts', dependencies: [], provides: ['catalog'] },
+        {
+          id: 'checkout',
+          title: 'checkout',
+          file: 'test.spec.ts',
+          dependencies: [parseDataDependency('catalog'), parseDataDependency('coupon')],
+        },
+      ];
+
+      const newGraph = DependencyGraph.fromTests(tests);
+
+      expect(newGraph.getDependencies('checkout')).toEqual([]);
+      expect(newGraph.getDataIssues()).toEqual([
+        { testId: 'checkout', dataName: 'catalog', producers: ['seed a', 'seed b'] },
+        { testId: 'checkout', dataName: 'coupon', producers: [] },
+      ]);
+    });
+  });
+
   describe('clear', () => {
     it('should clear all nodes and edges', () => {
       const test1: TestInfo = { id: 'test-1', title: 'Test 1', file: 'test.spec.ts', dependencies: [] };
@@ -218,6 +275,29 @@ describe('DependencyGraph', () => {
       expect(mermaid).toContain('-->');
     });
 
+    it('should render optional dependencies as dashed edges', () => {
+      const test1: TestInfo = { id: 'test-1', title: 'Seed', file: 'test.spec.ts', dependencies: [] };
+      const test2: TestInfo = { id: 'test-2', title: 'Browse', file: 'test.spec.ts', dependencies: [] };
+
+      graph.addTest(test1);
+      graph.addTest(test2);
+      graph.addDependency('test-2', 'test-1', { optional: true });
+
+      expect(graph.getEdge('test-2', 'test-1')?.optional).toBe(true);
+      expect(graph.toMermaid()).toContain('N0 -.-> N1');
+    });
+
+    it('should label aliased edges', () => {
+      const test1: TestInfo = { id: 'test-1', title: 'Log in', file: 'test.spec.ts', dependencies: [] };
+      const test2: TestInfo = { id: 'test-2', title: 'Profile', file: 'test.spec.ts', dependencies: [] };
+
+      graph.addTest(test1);
+      graph.addTest(test2);
+      graph.addDependency('test-2', 'test-1', { alias: 'admin' });
+
+      expect(graph.toMermaid()).toContain('N0 -->|admin| N1');
+    });
+
     it('should support different directions', () => {
       const test1: TestInfo = { id: 'test-1', title: 'Test', file: 'test.spec.ts', dependencies: [] };
       graph.addTest(test1);
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { loadSpecModule } from '../src/loader';
+import { loadTestsFromFile, clearModuleCache } from '../src/executor';
+import { resultStore } from '../src/store';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('loadSpecModule', () => {
+  // Inside the project so the spec can resolve @playwright/test
+  const rootDir = path.join(process.cwd(), 'node_modules', '.cache', 'relay-loader');
+  const specFile = path.join(rootDir, 'users.spec.ts');
+
+  beforeEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.mkdirSync(rootDir, { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'helpers.ts'), `
+export function buildUser(name: string): { name: string; role: string } {
+  return { name, role: 'admin' };
+}
+`);
+    clearModuleCache();
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should run tests with imports, helpers and module constants in scope', async () => {
+    fs.writeFileSync(specFile, `
+import { test } from '@playwright/test';
+import * as path from 'path';
+import { buildUser } from './helpers';
+
+const PREFIX = 'user';
+const label = (name: string) => \`\${PREFIX}-\${name}\`;
+
+test.describe('users', () => {
+  test.beforeEach(async () => {});
+
+  test('create user', async ({ relay }) => {
+    return { ...buildUser(label('ada')), file: path.basename(__filename), hasRelay: !!relay };
+  });
+});
+`);
+
+    const [collected] = loadSpecModule(specFile);
+
+    expect(collected.title).toBe('create user');
+    expect(collected.describePath).toEqual(['users']);
+    expect(await collected.fn({ relay: {} })).toEqual({
+      name: 'user-ada',
+      role: 'admin',
+      file: 'users.spec.ts',
+      hasRelay: true,
+    });
+  });
+
+  it('should collect tests declared in loops and with modifiers', () => {
+    fs.writeFileSync(specFile, `
+import { test } from '@playwright/test';
+
+for (const role of ['admin', 'editor']) {
+  test(\`create \${role}\`, async () => role);
+}
+test.skip('skipped', async () => {});
+test.describe.serial.only('serial', () => {
+  test.describe.configure({ retries: 1 });
+  test.fixme('nested', async () => {});
+});
+`);
+
+    expect(loadSpecModule(specFile).map(t => t.title)).toEqual([
+      'create admin',
+      'create editor',
+      'skipped',
+      'nested',
+    ]);
+  });
+
+  it('should run the dependencies of a test it runs in-process and resolve them in its relay', async () => {
+    resultStore.clear();
+    fs.writeFileSync(specFile, `
+import { test } from '@playwright/test';
+
+test('create user', async () => ({ name: 'ada' }));
+
+/**
+ * @depends create user as user
+ * @depends missing user (optional)
+ */
+test('create order', async ({ relay }) => ({ user: relay.from('user'), hasMissing: relay.hasRun('missing user') }));
+`);
+
+    const run = loadTestsFromFile(specFile).get('create order')!;
+
+    expect(await run()).toEqual({ user: { name: 'ada' }, hasMissing: false });
+    expect(resultStore.getStatus('create user')).toBe('passed');
+  });
+
+  it('should name unavailable fixtures when a dependency runs in-process', async () => {
+    fs.writeFileSync(specFile, `
+import { test } from '@playwright/test';
+
+test('open session', async ({ adminSession }) => adminSession);
+`);
+
+    const run = loadTestsFromFile(specFile).get('open session')!;
+
+    await expect(run()).rejects.toThrow('Fixture "adminSession" is not available');
+  });
+});
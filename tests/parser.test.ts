@@ -1,10 +1,18 @@
 import { describe, it, expect } from 'vitest';
+import * as path from 'path';
 import {
   parseDependsValue,
   parseDependsAnnotations,
   parseTestSource,
+  discoverTests,
   parseTestKey,
   generateTestKey,
+  formatLocation,
+  parseDataDependency,
+  resolveDataDependency,
+  resolveAliasedTitle,
+  setTestFileSuffixes,
+  DEFAULT_TEST_FILE_SUFFIXES,
 } from '../src/parser';
 
 describe('Parser', () => {
@@ -39,6 +47,113 @@ describe('Parser', () => {
       expect(result.testTitle).toBe('should login');
     });
 
+    it('should parse .test and module file suffixes', () => {
+      expect(parseDependsValue('auth.test.ts > should login').file).toBe('auth.test.ts');
+      expect(parseDependsValue('auth.spec.mts > should login').file).toBe('auth.spec.mts');
+      expect(parseDependsValue('auth.test.cjs > should login').file).toBe('auth.test.cjs');
+    });
+
+    it('should parse relative and project-root paths', () => {
+      const relative = parseDependsValue('../auth/login.spec.ts > should login');
+      const rooted = parseDependsValue('tests/auth/login.spec.ts > should login');
+      
+      expect(relative.file).toBe('../auth/login.spec.ts');
+      expect(relative.testTitle).toBe('should login');
+      expect(rooted.file).toBe('tests/auth/login.spec.ts');
+    });
+
+    it('should use configured test file suffixes', () => {
+      setTestFileSuffixes(['.setup.ts']);
+      try {
+        expect(parseDependsValue('auth.setup.ts > should login').file).toBe('auth.setup.ts');
+        expect(parseDependsValue('auth.spec.ts > should login').file).toBeUndefined();
+      } finally {
+        setTestFileSuffixes(DEFAULT_TEST_FILE_SUFFIXES);
+      }
+    });
+
+    it('should parse wildcard patterns', () => {
+      const result = parseDependsValue('create *');
+      
+      expect(result.pattern).toBeInstanceOf(RegExp);
+      expect(result.pattern!.test('create admin')).toBe(true);
+      expect(result.pattern!.test('delete admin')).toBe(false);
+    });
+
+    it('should parse regex patterns with a file', () => {
+      const result = parseDependsValue('users.spec.ts > /^create (admin|editor)$/');
+      
+      expect(result.file).toBe('users.spec.ts');
+      expect(result.pattern!.test('create editor')).toBe(true);
+      expect(result.pattern!.test('create viewer')).toBe(false);
+    });
+
+    it('should parse aliases', () => {
+      const result = parseDependsValue('login.spec.ts > log in as tenant administrator as admin');
+      
+      expect(result.file).toBe('login.spec.ts');
+      expect(result.testTitle).toBe('log in as tenant administrator');
+      expect(result.fullKey).toBe('login.spec.ts > log in as tenant administrator');
+      expect(result.alias).toBe('admin');
+    });
+
+    it('should take quoted titles literally', () => {
+      const result = parseDependsValue('"log in as admin"');
+      
+      expect(result.testTitle).toBe('log in as admin');
+      expect(result.alias).toBeUndefined();
+    });
+
+    it('should keep an alias suffix as part of the title when only the whole title names a test', () => {
+      const dep = parseDependsValue('login.spec.ts > log in as admin');
+
+      expect(resolveAliasedTitle(dep, ['log in as admin'])).toEqual({
+        file: 'login.spec.ts',
+        testTitle: 'log in as admin',
+        fullKey: 'login.spec.ts > log in as admin',
+      });
+      expect(resolveAliasedTitle(dep, ['log in', 'log in as admin'])).toBe(dep);
+      expect(resolveAliasedTitle(dep, [])).toBe(dep);
+    });
+
+    it('should not set a pattern for plain titles', () => {
+      expect(parseDependsValue('create user').pattern).toBeUndefined();
+    });
+
+    it('should parse an options block', () => {
+      const result = parseDependsValue('auth.spec.ts > create user as admin {retries: 2} (optional)');
+      
+      expect(result.fullKey).toBe('auth.spec.ts > create user');
+      expect(result.alias).toBe('admin');
+      expect(result.optional).toBe(true);
+      expect(result.retries).toBe(2);
+    });
+
+    it('should read the options block and the optional marker in either order', () => {
+      for (const value of ['create user (optional) {retries: 2}', 'create user {retries: 2} (optional)']) {
+        expect(parseDependsValue(value)).toEqual({
+          testTitle: 'create user',
+          fullKey: 'create user',
+          optional: true,
+          retries: 2,
+        });
+      }
+    });
+
+    it('should parse a ttl with or without unit', () => {
+      expect(parseDependsValue('log in {ttl: 15m}').ttl).toBe(900_000);
+      expect(parseDependsValue('log in {retries: 1, ttl: 1.5h}')).toMatchObject({ retries: 1, ttl: 5_400_000 });
+      expect(parseDependsValue('log in {ttl: 500}').ttl).toBe(500);
+      expect(parseDependsValue('log in {ttl: soon}').ttl).toBeUndefined();
+    });
+
+    it('should ignore invalid options', () => {
+      const result = parseDependsValue('create user {retries: many}');
+      
+      expect(result.testTitle).toBe('create user');
+      expect(result.retries).toBeUndefined();
+    });
+
     it('should handle .js extension', () => {
       const result = parseDependsValue('auth.spec.js > should login');
       
@@ -85,6 +200,19 @@ describe('Parser', () => {
       expect(deps[1].file).toBe('mysql.spec.ts');
     });
 
+    it('should parse optional dependencies', () => {
+      const comment = `/**
+       * @depends? seed catalog
+       * @depends seed pricing (optional)
+       * @depends create user
+       */`;
+      
+      const deps = parseDependsAnnotations(comment);
+      
+      expect(deps.map(d => d.fullKey)).toEqual(['seed catalog', 'seed pricing', 'create user']);
+      expect(deps.map(d => d.optional)).toEqual([true, true, undefined]);
+    });
+
     it('should handle empty comments', () => {
       const comment = `/** */`;
       
@@ -218,6 +346,273 @@ test(\`should work with backticks\`, async () => {});
     });
   });
 
+  describe('discoverTests', () => {
+    it('should discover tests with modifiers', () => {
+      const source = `
+test.only('focused test', async () => {});
+test.skip('skipped test', async () => {});
+test.fixme('broken test', async () => {});
+`;
+      
+      const tests = discoverTests(source);
+      
+      expect(tests.map(t => t.title)).toEqual(['focused test', 'skipped test', 'broken test']);
+      expect(tests[0].modifiers).toEqual(['only']);
+      expect(tests[1].modifiers).toEqual(['skip']);
+      expect(tests[2].modifiers).toEqual(['fixme']);
+    });
+
+    it('should record describe path and inherited modifiers', () => {
+      const source = `
+test.describe('users', () => {
+  test.describe.skip('admin', () => {
+    test('create admin', async () => {});
+  });
+  test('list users', async () => {});
+});
+`;
+      
+      const tests = discoverTests(source);
+      
+      expect(tests).toHaveLength(2);
+      expect(tests[0].describePath).toEqual(['users', 'admin']);
+      expect(tests[0].modifiers).toEqual(['skip']);
+      expect(tests[1].describePath).toEqual(['users']);
+      expect(tests[1].modifiers).toEqual([]);
+    });
+
+    it('should handle multi-line test calls and record location', () => {
+      const source = `
+/**
+ * @depends create user
+ */
+test(
+  'update user',
+  async () => {}
+);
+`;
+      
+      const tests = discoverTests(source);
+      
+      expect(tests).toHaveLength(1);
+      expect(tests[0].title).toBe('update user');
+      expect(tests[0].location).toEqual({ line: 5, column: 1 });
+      expect(tests[0].dependencies[0].testTitle).toBe('create user');
+    });
+
+    it('should ignore test calls inside strings and comments', () => {
+      const source = `
+// test('commented out', async () => {});
+const snippet = "test('in a string', async () => {})";
+test.step('not a test', async () => {});
+test('real test', async () => {});
+`;
+      
+      const tests = discoverTests(source);
+      
+      expect(tests.map(t => t.title)).toEqual(['real test']);
+    });
+  });
+
+  describe('titles with quotes and templates', () => {
+    it('should discover titles containing quotes and backticks', () => {
+      const source = `
+test("it's a \\"quoted\\" title", async () => {});
+test('uses \\\`backticks\\\` inside', async () => {});
+`;
+      
+      const tests = discoverTests(source);
+      
+      expect(tests.map(t => t.title)).toEqual([
+        'it\'s a "quoted" title',
+        'uses `backticks` inside',
+      ]);
+    });
+
+    it('should resolve template literals from constants', () => {
+      const source = `
+const role = 'admin';
+test(\`create \${role} user\`, async () => {});
+`;
+      
+      const [test] = discoverTests(source);
+      
+      expect(test.title).toBe('create admin user');
+      expect(test.dynamic).toBe(false);
+    });
+
+    it('should report unresolvable template literals as dynamic', () => {
+      const source = `
+for (const role of roles) {
+  test(\`create \${role} user\`, async () => {});
+}
+`;
+      
+      const [test] = discoverTests(source);
+      
+      expect(test.title).toBe('create \${role} user');
+      expect(test.dynamic).toBe(true);
+    });
+  });
+
+  describe('describe-level dependencies', () => {
+    it('should apply describe @depends to every test in the suite', () => {
+      const source = `
+/**
+ * @depends should create account
+ */
+test.describe('account', () => {
+  test('should update account', async () => {});
+
+  /**
+   * @depends should update account
+   */
+  test('should delete account', async () => {});
+});
+
+test('outside suite', async () => {});
+`;
+      
+      const deps = parseTestSource(source);
+      
+      expect(deps.get('should update account')!.map(d => d.fullKey)).toEqual(['should create account']);
+      expect(deps.get('should delete account')!.map(d => d.fullKey)).toEqual([
+        'should create account',
+        'should update account',
+      ]);
+      expect(deps.has('outside suite')).toBe(false);
+    });
+
+    it('should merge nested describe dependencies without duplicates', () => {
+      const source = `
+// @depends login
+test.describe('outer', () => {
+  /**
+   * @depends login
+   * @depends create project
+   */
+  test.describe('inner', () => {
+    test('edit project', async () => {});
+  });
+});
+`;
+      
+      const [test] = discoverTests(source);
+      
+      expect(test.dependencies.map(d => d.fullKey)).toEqual(['login', 'create project']);
+    });
+  });
+
+  describe('dependencies in test details', () => {
+    it('should read depends from the details argument', () => {
+      const source = `
+const LOGIN = 'auth.spec.ts > login';
+
+test('checkout', { depends: ['create user', LOGIN], tag: '@smoke' }, async ({ relay }) => {});
+test('profile', { depends: 'create user as user' }, async ({ relay }) => {});
+`;
+
+      const [checkout, profile] = discoverTests(source);
+
+      expect(checkout.dependencies.map(d => d.fullKey)).toEqual(['create user', 'auth.spec.ts > login']);
+      expect(profile.dependencies[0]).toMatchObject({ testTitle: 'create user', alias: 'user' });
+    });
+
+    it('should read depends annotations and merge with JSDoc', () => {
+      const source = `
+/**
+ * @depends login
+ */
+test('order', {
+  annotation: [{ type: 'depends', description: 'create cart' }, { type: 'issue', description: 'x' }],
+}, async () => {});
+`;
+
+      const [test] = discoverTests(source);
+
+      expect(test.dependencies.map(d => d.fullKey)).toEqual(['login', 'create cart']);
+    });
+
+    it('should apply suite details to nested tests and ignore dynamic values', () => {
+      const source = `
+test.describe('admin', { depends: 'login' }, () => {
+  test('dashboard', { depends: [getTitle()] }, async () => {});
+});
+`;
+
+      const [test] = discoverTests(source);
+
+      expect(test.describePath).toEqual(['admin']);
+      expect(test.dependencies.map(d => d.fullKey)).toEqual(['login']);
+    });
+  });
+
+  describe('data dependencies', () => {
+    it('should parse @provides and @depends-data', () => {
+      const source = `
+/**
+ * @provides adminUser, adminToken
+ */
+test('create admin', async () => {});
+
+/**
+ * @depends-data adminUser
+ * @depends-data? users.spec.ts > guestUser
+ */
+test('ban user', async () => {});
+`;
+
+      const [producer, consumer] = discoverTests(source);
+
+      expect(producer.provides).toEqual(['adminUser', 'adminToken']);
+      expect(consumer.provides).toEqual([]);
+      expect(consumer.dependencies[0]).toMatchObject({ dataName: 'adminUser', alias: 'adminUser' });
+      expect(consumer.dependencies[1]).toMatchObject({
+        dataName: 'guestUser',
+        file: 'users.spec.ts',
+        optional: true,
+      });
+    });
+
+    it('should resolve a data dependency to its only producer', () => {
+      const dep = parseDataDependency('adminUser');
+      const producers = [{ title: 'create admin', provides: ['adminUser'] }];
+
+      expect(resolveDataDependency(dep, producers)).toMatchObject({
+        testTitle: 'create admin',
+        fullKey: 'create admin',
+        alias: 'adminUser',
+      });
+      expect(resolveDataDependency(dep, [...producers, { title: 'seed', provides: ['adminUser'] }])).toBe(dep);
+    });
+  });
+
+  describe('source locations', () => {
+    it('should record where each dependency is declared', () => {
+      const source = `/**
+ * @depends login
+ *   @depends? load settings
+ */
+test('dashboard', { depends: ['create user'] }, async () => {});
+`;
+
+      const [test] = discoverTests(source);
+
+      expect(test.location).toEqual({ line: 5, column: 1 });
+      expect(test.dependencies.map(d => d.location)).toEqual([
+        { line: 2, column: 4 },
+        { line: 3, column: 6 },
+        { line: 5, column: 31 },
+      ]);
+    });
+
+    it('should format locations as file:line:column', () => {
+      expect(formatLocation({ file: path.join(process.cwd(), 'tests', 'a.spec.ts'), line: 3, column: 7 }))
+        .toBe(path.join('tests', 'a.spec.ts') + ':3:7');
+      expect(formatLocation({ line: 3, column: 7 })).toBe('3:7');
+    });
+  });
+
   describe('parseTestKey', () => {
     it('should parse simple test key', () => {
       const result = parseTestKey('should create account');
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
 import { 
   createRelay, 
   storeTestResult, 
@@ -13,6 +13,8 @@ import {
   validateDependenciesOrThrow,
 } from '../src/relay';
 import { resultStore } from '../src/store';
+import { parseDependsValue } from '../src/parser';
+import { DependencyTimeoutError } from '../src/timeout';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -55,6 +57,91 @@ describe('Relay', () => {
     });
   });
 
+  describe('data names', () => {
+    it('should read data published under a data name', () => {
+      const relay = createRelay();
+
+      storeTestResult('@data:adminUser', 'passed', { id: 1 });
+
+      expect(relay.from('adminUser')).toEqual({ id: 1 });
+    });
+
+    it('should resolve @depends-data through its alias', () => {
+      const relay = createRelay(undefined, [
+        { testTitle: 'create admin', fullKey: 'create admin', dataName: 'adminUser', alias: 'adminUser' },
+      ]);
+
+      storeTestResult('create admin', 'passed', { id: 2 });
+
+      expect(relay.from('adminUser')).toEqual({ id: 2 });
+    });
+  });
+
+  describe('optional dependencies', () => {
+    it('should return undefined for a failed optional dependency', () => {
+      const relay = createRelay(undefined, [
+        { testTitle: 'seed catalog', fullKey: 'seed catalog', optional: true },
+      ]);
+      
+      storeTestResult('seed catalog', 'failed', undefined, new Error('boom'));
+      
+      expect(relay.from('seed catalog')).toBeUndefined();
+    });
+
+    it('should return undefined for a missing optional dependency', () => {
+      const relay = createRelay(undefined, [
+        { testTitle: 'seed catalog', fullKey: 'seed catalog', optional: true },
+      ]);
+      
+      expect(relay.from('seed catalog')).toBeUndefined();
+    });
+
+    it('should not report missing optional dependencies in validation', () => {
+      const file = path.join(os.tmpdir(), 'relay-optional.spec.ts');
+      fs.writeFileSync(file, `
+/**
+ * @depends? seed catalog
+ */
+test('browse catalog', async () => {});
+      `);
+      
+      expect(validateDependencies([file]).valid).toBe(true);
+    });
+  });
+
+  describe('aliases', () => {
+    it('should resolve aliases declared in dependencies', () => {
+      const relay = createRelay('/path/to/test.spec.ts', [{
+        file: 'login.spec.ts',
+        testTitle: 'log in as tenant administrator',
+        fullKey: 'login.spec.ts > log in as tenant administrator',
+        alias: 'admin',
+      }]);
+      
+      storeTestResult('login.spec.ts > log in as tenant administrator', 'passed', { token: 'abc' });
+      
+      expect(relay.from('admin')).toEqual({ token: 'abc' });
+      expect(relay.status('admin')).toBe('passed');
+    });
+
+    it('should run a test whose title ends in "as <word>" when no test has the shorter title', async () => {
+      registerTest('log in as admin', async () => ({ token: 'abc' }));
+      registerTest('create order', async () => 'order', [parseDependsValue('log in as admin')]);
+
+      await createRelay().require('create order');
+
+      expect(getTestResult('log in as admin')).toEqual({ token: 'abc' });
+    });
+
+    it('should scope aliases to the relay they were declared for', () => {
+      const relay = createRelay('/path/to/test.spec.ts');
+      
+      storeTestResult('login.spec.ts > log in as tenant administrator', 'passed', { token: 'abc' });
+      
+      expect(() => relay.from('admin')).toThrow('not executed');
+    });
+  });
+
   describe('hasRun', () => {
     it('should return true for executed tests', () => {
       const relay = createRelay();
@@ -216,6 +303,240 @@ describe('Relay', () => {
     });
   });
 
+  describe('pattern dependencies', () => {
+    it('should return a map of results for a wildcard', () => {
+      const relay = createRelay();
+      
+      storeTestResult('create admin', 'passed', { role: 'admin' });
+      storeTestResult('create editor', 'passed', { role: 'editor' });
+      storeTestResult('delete admin', 'passed', { deleted: true });
+      
+      const users = relay.from<Map<string, { role: string }>>('create *');
+      
+      expect([...users.keys()].sort()).toEqual(['create admin', 'create editor']);
+      expect(users.get('create editor')).toEqual({ role: 'editor' });
+    });
+
+    it('should match regex patterns', () => {
+      const relay = createRelay();
+      
+      storeTestResult('create admin', 'passed', 1);
+      storeTestResult('create viewer', 'passed', 2);
+      
+      const users = relay.from<Map<string, number>>('/^create (admin|editor)$/');
+      
+      expect([...users.keys()]).toEqual(['create admin']);
+    });
+
+    it('should report failed when any match failed', () => {
+      const relay = createRelay();
+      
+      storeTestResult('create admin', 'passed', 1);
+      storeTestResult('create editor', 'failed', undefined, new Error('boom'));
+      
+      expect(relay.status('create *')).toBe('failed');
+      expect(() => relay.from('create *')).toThrow('failed');
+    });
+
+    it('should execute every matching registered test on require', async () => {
+      const relay = createRelay();
+      
+      registerTest('seed users', async () => 'users', []);
+      registerTest('seed orders', async () => 'orders', []);
+      
+      const seeds = await relay.require<Map<string, string>>('seed *');
+      
+      expect(seeds.get('seed users')).toBe('users');
+      expect(seeds.get('seed orders')).toBe('orders');
+    });
+  });
+
+  describe('concurrent dependencies', () => {
+    // Two branches sharing one ancestor: report -> users, orders -> seed
+    function registerBranches(): { seedRuns: () => number; maxActive: () => number } {
+      let seedRuns = 0;
+      let active = 0;
+      let maxActive = 0;
+      const branch = (value: string) => async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        active--;
+        return value;
+      };
+
+      registerTest('seed', async () => ++seedRuns, []);
+      registerTest('users', branch('users'), [parseDependsValue('seed')]);
+      registerTest('orders', branch('orders'), [parseDependsValue('seed')]);
+      registerTest('report', async () => 'report', [parseDependsValue('users'), parseDependsValue('orders')]);
+
+      return { seedRuns: () => seedRuns, maxActive: () => maxActive };
+    }
+
+    it('should run independent branches at the same time and shared ancestors once', async () => {
+      const branches = registerBranches();
+
+      await createRelay().require('report');
+
+      expect(branches.maxActive()).toBe(2);
+      expect(branches.seedRuns()).toBe(1);
+    });
+
+    it('should respect maxConcurrentDependencies', async () => {
+      setRelayConfig({ maxConcurrentDependencies: 1 });
+      const branches = registerBranches();
+
+      await createRelay().require('report');
+
+      expect(branches.maxActive()).toBe(1);
+      expect(branches.seedRuns()).toBe(1);
+    });
+
+    it('should apply maxConcurrentDependencies across nested dependencies', async () => {
+      setRelayConfig({ maxConcurrentDependencies: 2 });
+      let active = 0;
+      let maxActive = 0;
+      const leaf = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        active--;
+      };
+      for (const key of ['users a', 'users b', 'orders a', 'orders b']) registerTest(key, leaf, []);
+      registerTest('users', async () => 'users', [parseDependsValue('users a'), parseDependsValue('users b')]);
+      registerTest('orders', async () => 'orders', [parseDependsValue('orders a'), parseDependsValue('orders b')]);
+      registerTest('report', async () => 'report', [parseDependsValue('users'), parseDependsValue('orders')]);
+
+      await createRelay().require('report');
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should fail instead of waiting forever on a cycle it reaches', async () => {
+      setRelayConfig({ onDependencyFailure: 'fail' });
+      registerTest('login', async () => 'login', [parseDependsValue('session')]);
+      registerTest('session', async () => 'session', [parseDependsValue('login')]);
+
+      await expect(createRelay().require('login')).rejects.toThrow('Circular dependency detected: login -> session -> login');
+    });
+  });
+
+  describe('dependency retries', () => {
+    function registerFlaky(failures: number): () => number {
+      let calls = 0;
+      registerTest('create user', async () => {
+        if (++calls <= failures) throw new Error(`flake ${calls}`);
+        return { id: 1 };
+      }, []);
+      return () => calls;
+    }
+
+    it('should retry with dependencyRetries and record every attempt', async () => {
+      setRelayConfig({ dependencyRetries: 2, dependencyRetryDelay: 1 });
+      const calls = registerFlaky(2);
+
+      const result = await createRelay().require('create user');
+
+      expect(result).toEqual({ id: 1 });
+      expect(calls()).toBe(3);
+      expect(resultStore.get('create user')?.attempts).toEqual([
+        { status: 'failed', duration: expect.any(Number), error: 'flake 1' },
+        { status: 'failed', duration: expect.any(Number), error: 'flake 2' },
+        { status: 'passed', duration: expect.any(Number) },
+      ]);
+    });
+
+    it('should let a dependency override the retries', async () => {
+      setRelayConfig({ dependencyRetries: 0, dependencyRetryDelay: 1 });
+      const calls = registerFlaky(1);
+      const relay = createRelay(undefined, [parseDependsValue('create user {retries: 1}')]);
+
+      await expect(relay.require('create user')).resolves.toEqual({ id: 1 });
+      expect(calls()).toBe(2);
+    });
+
+    it('should fail once retries run out', async () => {
+      setRelayConfig({ dependencyRetries: 1, dependencyRetryDelay: 1 });
+      const calls = registerFlaky(5);
+
+      await createRelay().require('create user');
+
+      expect(calls()).toBe(2);
+      expect(resultStore.get('create user')).toMatchObject({ status: 'failed' });
+      expect(resultStore.get('create user')?.attempts).toHaveLength(2);
+    });
+  });
+
+  describe('dependency timeouts', () => {
+    it('should abort a timed out dependency and discard its late result', async () => {
+      setRelayConfig({ dependencyTimeout: 10 });
+      let signal: AbortSignal | undefined;
+      registerTest('slow seed', s => {
+        signal = s;
+        return new Promise(resolve => setTimeout(() => resolve('late'), 30));
+      }, []);
+
+      await createRelay().require('slow seed');
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      expect(signal?.aborted).toBe(true);
+      expect(resultStore.get('slow seed')).toMatchObject({ status: 'failed' });
+      expect(resultStore.get('slow seed')?.error).toBeInstanceOf(DependencyTimeoutError);
+      expect(resultStore.getData('slow seed')).toBeUndefined();
+    });
+  });
+
+  describe('cached result expiry', () => {
+    let calls: number;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      calls = 0;
+      registerTest('log in', async () => ({ token: ++calls }), []);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should run a dependency again once its result is older than cacheMaxAge', async () => {
+      setRelayConfig({ cacheMaxAge: 60_000 });
+      const relay = createRelay();
+      await relay.require('log in');
+
+      vi.setSystemTime(Date.now() + 30_000);
+      await expect(relay.require('log in')).resolves.toEqual({ token: 1 });
+
+      vi.setSystemTime(Date.now() + 31_000);
+      expect(relay.hasRun('log in')).toBe(false);
+      await expect(relay.require('log in')).resolves.toEqual({ token: 2 });
+    });
+
+    it('should let a dependency override cacheMaxAge with its ttl', async () => {
+      setRelayConfig({ cacheMaxAge: 60_000 });
+      const relay = createRelay(undefined, [parseDependsValue('log in {ttl: 2m}')]);
+      await relay.require('log in');
+
+      vi.setSystemTime(Date.now() + 90_000);
+
+      await expect(relay.require('log in')).resolves.toEqual({ token: 1 });
+      // Without the ttl, the global limit applies
+      expect(createRelay().hasRun('log in')).toBe(false);
+    });
+
+    it('should apply the ttl of a declared dependency to from, status and hasRun', async () => {
+      setRelayConfig({ cacheMaxAge: 1000 });
+      const relay = createRelay(undefined, [parseDependsValue('log in as session {ttl: 1h}')]);
+      await relay.require('session');
+
+      vi.setSystemTime(Date.now() + 60_000);
+
+      expect(relay.status('log in')).toBe('passed');
+      expect(relay.hasRun('session')).toBe(true);
+      expect(relay.from('session')).toEqual({ token: 1 });
+    });
+  });
+
   describe('getTestResult', () => {
     it('should return typed data', () => {
       interface User { id: string; name: string; }
@@ -311,6 +632,152 @@ test('get profile', async () => {});
       const result = validateDependencies([testFile1, testFile2]);
       expect(result.valid).toBe(true);
     });
+
+    it('should report where a missing dependency is declared', () => {
+      fs.writeFileSync(testFile1, `
+import { test } from 'playwright-relay';
+/**
+ * @depends create account
+ */
+test('update user', async () => {});
+      `);
+
+      const result = validateDependencies([testFile1]);
+      expect(result.errors[0].location).toEqual({ file: testFile1, line: 4, column: 4 });
+      expect(() => validateDependenciesOrThrow([testFile1]))
+        .toThrow(`${path.relative(process.cwd(), testFile1)}:4:4 relay-test1.spec.ts > update user`);
+    });
+  });
+
+  describe('validateDependencies with data names', () => {
+    const tempDir = os.tmpdir();
+    const producerFile = path.join(tempDir, 'relay-producer.spec.ts');
+    const consumerFile = path.join(tempDir, 'relay-consumer.spec.ts');
+
+    it('should accept a data name with exactly one producer in any file', () => {
+      fs.writeFileSync(producerFile, `
+/**
+ * @provides adminUser
+ */
+test('create admin', async () => {});
+      `);
+      fs.writeFileSync(consumerFile, `
+/**
+ * @depends-data adminUser
+ */
+test('ban user', async () => {});
+      `);
+
+      expect(validateDependencies([producerFile, consumerFile]).valid).toBe(true);
+    });
+
+    it('should report data names with no or several producers', () => {
+      fs.writeFileSync(producerFile, `
+/**
+ * @provides adminUser
+ */
+test('create admin', async () => {});
+/**
+ * @provides adminUser
+ */
+test('seed admin', async () => {});
+      `);
+      fs.writeFileSync(consumerFile, `
+/**
+ * @depends-data adminUser
+ * @depends-data guestUser
+ */
+test('ban user', async () => {});
+      `);
+
+      const { errors } = validateDependencies([producerFile, consumerFile]);
+      expect(errors.map(e => e.message)).toEqual([
+        expect.stringContaining('"adminUser" is provided by several tests: create admin'),
+        expect.stringContaining('No test provides "guestUser"'),
+      ]);
+    });
+  });
+
+  describe('path-qualified results', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-path-keys-'));
+    const ordersFile = path.join(rootDir, 'orders', 'orders.spec.ts');
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(rootDir, 'package.json'), '{}');
+    });
+
+    afterAll(() => {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('should not match results of a file with the same basename', () => {
+      // The keys the relay fixture stores a result of customer/login.spec.ts under
+      for (const key of ['log in', 'login.spec.ts > log in', 'customer/login.spec.ts > log in']) {
+        storeTestResult(key, 'passed', { who: 'customer' });
+      }
+      const relay = createRelay(ordersFile);
+
+      expect(relay.status('admin/login.spec.ts > log in')).toBe('pending');
+      expect(() => relay.from('admin/login.spec.ts > log in')).toThrow('not executed');
+
+      storeTestResult('admin/login.spec.ts > log in', 'passed', { who: 'admin' });
+
+      expect(relay.from('admin/login.spec.ts > log in')).toEqual({ who: 'admin' });
+      expect(relay.from('../admin/login.spec.ts > log in')).toEqual({ who: 'admin' });
+      expect(relay.from('customer/login.spec.ts > log in')).toEqual({ who: 'customer' });
+    });
+  });
+
+  describe('validateDependencies with paths', () => {
+    const rootDir = path.join(os.tmpdir(), 'relay-paths');
+    const adminFile = path.join(rootDir, 'admin', 'login.spec.ts');
+    const customerFile = path.join(rootDir, 'customer', 'login.spec.ts');
+    const ordersFile = path.join(rootDir, 'orders', 'orders.spec.ts');
+
+    beforeEach(() => {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+      for (const file of [adminFile, customerFile]) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, `test('login', async () => {});`);
+      }
+      fs.mkdirSync(path.dirname(ordersFile), { recursive: true });
+    });
+
+    it('should report ambiguous basenames', () => {
+      fs.writeFileSync(ordersFile, `
+/**
+ * @depends login.spec.ts > login
+ */
+test('create order', async () => {});
+      `);
+
+      const result = validateDependencies([adminFile, customerFile, ordersFile]);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain('ambiguous');
+    });
+
+    it('should accept a title ending in "as <word>" that no shorter title shadows', () => {
+      fs.writeFileSync(adminFile, `test('log in as admin', async () => {});`);
+      fs.writeFileSync(ordersFile, `
+/**
+ * @depends ../admin/login.spec.ts > log in as admin
+ */
+test('create order', async () => {});
+      `);
+
+      expect(validateDependencies([adminFile, customerFile, ordersFile]).valid).toBe(true);
+    });
+
+    it('should resolve relative paths', () => {
+      fs.writeFileSync(ordersFile, `
+/**
+ * @depends ../admin/login.spec.ts > login
+ */
+test('create order', async () => {});
+      `);
+
+      expect(validateDependencies([adminFile, customerFile, ordersFile]).valid).toBe(true);
+    });
   });
 
   describe('validateDependenciesOrThrow', () => {
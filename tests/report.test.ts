@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { JSONReport } from '@playwright/test/reporter';
+import { readReportedTests, RELAY_RESULT_ATTACHMENT } from '../src/report';
+import { encodeValue } from '../src/serializer';
+
+function result(status: string, extra: Record<string, unknown> = {}) {
+  return { status, duration: 10, errors: [], attachments: [], ...extra };
+}
+
+function report(suites: unknown[]): JSONReport {
+  return { suites } as unknown as JSONReport;
+}
+
+describe('readReportedTests', () => {
+  it('should build title paths from describe blocks without the file', () => {
+    const tests = readReportedTests(report([{
+      title: 'users.spec.ts',
+      file: 'admin/users.spec.ts',
+      specs: [{ title: 'top level', tests: [{ projectName: 'api', results: [result('passed')] }] }],
+      suites: [{
+        title: 'users',
+        specs: [],
+        suites: [{
+          title: 'admin',
+          specs: [{ title: 'create user', tests: [{ projectName: 'api', results: [result('passed')] }] }],
+        }],
+      }],
+    }]));
+
+    expect(tests.map(t => t.titlePath)).toEqual([
+      ['top level'],
+      ['users', 'admin', 'create user'],
+    ]);
+    expect(tests[1]).toMatchObject({ file: 'admin/users.spec.ts', projectName: 'api' });
+  });
+
+  it('should use the final attempt after retries', () => {
+    const [flaky] = readReportedTests(report([{
+      title: 'users.spec.ts',
+      specs: [{
+        title: 'create user',
+        tests: [{
+          projectName: '',
+          results: [
+            result('failed', { duration: 120, errors: [{ message: 'boom' }] }),
+            result('passed', { duration: 80 }),
+          ],
+        }],
+      }],
+    }]));
+
+    expect(flaky).toMatchObject({
+      status: 'passed',
+      duration: 80,
+      attempts: [
+        { status: 'failed', duration: 120, error: 'boom' },
+        { status: 'passed', duration: 80 },
+      ],
+    });
+    expect(flaky.error).toBeUndefined();
+  });
+
+  it('should record errors of failed and timed out tests', () => {
+    const tests = readReportedTests(report([{
+      title: 'users.spec.ts',
+      specs: [
+        {
+          title: 'failed',
+          tests: [{ projectName: '', results: [result('failed', {
+            errors: [{ message: 'first' }, { message: 'second' }],
+            error: { message: 'first', stack: 'Error: first\n    at users.spec.ts:3:5' },
+          })] }],
+        },
+        { title: 'timed out', tests: [{ projectName: '', results: [result('timedOut')] }] },
+        { title: 'not run', tests: [{ projectName: '', results: [] }] },
+      ],
+    }]));
+
+    expect(tests.map(t => t.status)).toEqual(['failed', 'failed', 'skipped']);
+    expect(tests[0].error?.message).toBe('first\n\nsecond');
+    expect(tests[0].error?.stack).toContain('users.spec.ts:3:5');
+  });
+
+  it('should read relay data from the result attachment', () => {
+    const body = Buffer.from(JSON.stringify({ data: { id: 42 } })).toString('base64');
+    const [test] = readReportedTests(report([{
+      title: 'users.spec.ts',
+      specs: [{
+        title: 'create user',
+        tests: [{ projectName: '', results: [result('passed', {
+          attachments: [
+            { name: 'screenshot', contentType: 'image/png', path: '/tmp/shot.png' },
+            { name: RELAY_RESULT_ATTACHMENT, contentType: 'application/json', body },
+          ],
+        })] }],
+      }],
+    }]));
+
+    expect(test.data).toEqual({ id: 42 });
+  });
+
+  it('should restore rich data from the result attachment', () => {
+    const data = { createdAt: new Date('2024-05-01T10:00:00.000Z'), roles: new Set(['admin']), balance: 10n };
+    const body = Buffer.from(JSON.stringify({ data: encodeValue(data) })).toString('base64');
+    const [test] = readReportedTests(report([{
+      title: 'users.spec.ts',
+      specs: [{
+        title: 'create user',
+        tests: [{ projectName: '', results: [result('passed', {
+          attachments: [{ name: RELAY_RESULT_ATTACHMENT, contentType: 'application/json', body }],
+        })] }],
+      }],
+    }]));
+
+    expect(test.data).toEqual(data);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { encodeValue, decodeValue, registerSerializer, clearSerializers } from '../src/serializer';
+
+function roundTrip<T>(value: T): T {
+  return decodeValue(JSON.parse(JSON.stringify(encodeValue(value)))) as T;
+}
+
+class Money {
+  constructor(public readonly amount: bigint, public readonly currency: string) {}
+}
+
+describe('serializer', () => {
+  afterEach(() => {
+    clearSerializers();
+  });
+
+  it('should round-trip types plain JSON loses', () => {
+    const value = {
+      createdAt: new Date('2024-05-01T10:00:00.000Z'),
+      roles: new Map<string, unknown>([['admin', { since: new Date(0) }]]),
+      tags: new Set(['a', 'b']),
+      balance: 12345678901234567890n,
+      avatar: Buffer.from([1, 2, 3]),
+      list: [1, undefined, null],
+    };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should keep name, message, stack, cause and properties of errors', () => {
+    const cause = Object.assign(new TypeError('socket closed'), { code: 'ECONNRESET' });
+    const error = Object.assign(new Error('login failed'), { cause });
+
+    const restored = roundTrip(error) as Error & { cause: Error & { code: string } };
+
+    expect(restored).toBeInstanceOf(Error);
+    expect(restored.message).toBe('login failed');
+    expect(restored.stack).toBe(error.stack);
+    expect(restored.cause.name).toBe('TypeError');
+    expect(restored.cause.message).toBe('socket closed');
+    expect(restored.cause.code).toBe('ECONNRESET');
+  });
+
+  it('should leave plain objects that use the type key alone', () => {
+    const value = { __relayType: 'Date', value: 'not a date' };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should use custom serializers for domain classes', () => {
+    registerSerializer<Money>({
+      tag: 'Money',
+      test: value => value instanceof Money,
+      serialize: money => ({ amount: money.amount, currency: money.currency }),
+      deserialize: data => {
+        const { amount, currency } = data as { amount: bigint; currency: string };
+        return new Money(amount, currency);
+      },
+    });
+
+    const restored = roundTrip({ price: new Money(1999n, 'EUR') });
+
+    expect(restored.price).toBeInstanceOf(Money);
+    expect(restored.price).toEqual(new Money(1999n, 'EUR'));
+  });
+
+  it('should keep values of serializers this process does not know', () => {
+    registerSerializer<Money>({
+      tag: 'Money',
+      test: value => value instanceof Money,
+      serialize: money => money.currency,
+      deserialize: currency => new Money(0n, currency as string),
+    });
+    const encoded = encodeValue(new Money(0n, 'EUR'));
+    clearSerializers();
+
+    expect(decodeValue(encoded)).toEqual(encoded);
+  });
+
+  it('should not let custom serializers replace built-in tags', () => {
+    expect(() => registerSerializer({
+      tag: 'Date',
+      test: () => false,
+      serialize: value => value,
+      deserialize: value => value,
+    })).toThrow('reserved');
+  });
+});
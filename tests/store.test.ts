@@ -1,5 +1,12 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ResultStore } from '../src/store';
+import { createMemoryAdapter } from '../src/adapters';
+import { withFileLock } from '../src/lock';
+import { getResultSource, clearFingerprintCache } from '../src/fingerprint';
+import type { AsyncRelayStoreAdapter, TestResult } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('ResultStore', () => {
   let store: ResultStore;
@@ -207,4 +214,341 @@ describe('ResultStore', () => {
       expect(store.isInitialized()).toBe(true);
     });
   });
+
+  describe('shared store file', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-store-'));
+      filePath = path.join(dir, 'store.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should merge results of other processes without leaving temp or lock files', () => {
+      const worker1 = new ResultStore(true, filePath);
+      const worker2 = new ResultStore(true, filePath);
+
+      worker1.set('login', 'passed', { token: 'abc' });
+      worker2.set('signup', 'passed', { id: 1 });
+
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(Object.keys(stored.results).sort()).toEqual(['login', 'signup']);
+      expect(fs.readdirSync(dir)).toEqual(['store.json']);
+    });
+
+    it('should take over a lock left behind by a process that no longer runs', () => {
+      fs.writeFileSync(`${filePath}.lock`, JSON.stringify({ pid: 2 ** 22 + 1, createdAt: Date.now() }));
+      const worker = new ResultStore(true, filePath);
+
+      worker.set('login', 'passed', { token: 'abc' });
+
+      expect(new ResultStore(true, filePath).getData('login')).toEqual({ token: 'abc' });
+      expect(fs.readdirSync(dir)).toEqual(['store.json']);
+    });
+
+    it('should leave a lock another process took over in place when releasing its own', () => {
+      const lockPath = `${filePath}.lock`;
+      const otherLock = JSON.stringify({ pid: 2 ** 22 + 1, createdAt: Date.now() });
+
+      withFileLock(filePath, () => {
+        fs.rmSync(lockPath);
+        fs.writeFileSync(lockPath, otherLock);
+      });
+
+      expect(fs.readFileSync(lockPath, 'utf-8')).toBe(otherLock);
+    });
+
+    it('should report a corrupted store file through onCacheCorrupted once', () => {
+      fs.writeFileSync(filePath, '{"results": {"login": {"sta');
+      const corrupted: Array<{ filePath: string; error: Error }> = [];
+      store.initialize({
+        persistCache: true,
+        cacheFilePath: filePath,
+        hooks: { onCacheCorrupted: event => { corrupted.push(event); } },
+      });
+
+      expect(store.get('login')).toBeUndefined();
+      expect(store.has('login')).toBe(false);
+      expect(corrupted).toHaveLength(1);
+      expect(corrupted[0].filePath).toBe(filePath);
+      expect(corrupted[0].error).toBeInstanceOf(SyntaxError);
+    });
+
+    it('should keep results it cannot write in memory and report them', () => {
+      const failures: Array<{ testKey?: string; error: Error }> = [];
+      store.initialize({
+        persistCache: true,
+        cacheFilePath: filePath,
+        hooks: { onCacheSaveFailed: event => { failures.push(event); } },
+      });
+      const response: Record<string, unknown> = { status: 200 };
+      response.self = response;
+
+      expect(() => store.set('login', 'passed', response)).not.toThrow();
+      store.set('signup', 'passed', { id: 1 });
+
+      expect(store.getData('login')).toBe(response);
+      expect(store.keys().sort()).toEqual(['login', 'signup']);
+      expect(failures).toHaveLength(1);
+      expect(failures[0].testKey).toBe('login');
+      expect(new ResultStore(true, filePath).getData('signup')).toEqual({ id: 1 });
+    });
+
+    it('should restore data and errors of results loaded from the file', () => {
+      const error = new Error('login failed');
+      const writer = new ResultStore(true, filePath);
+      writer.set('session', 'passed', { expires: new Date('2030-01-01T00:00:00.000Z'), scopes: new Set(['read']) });
+      writer.set('login', 'failed', undefined, error);
+
+      const reader = new ResultStore(true, filePath);
+
+      expect(reader.getData('session')).toEqual({
+        expires: new Date('2030-01-01T00:00:00.000Z'),
+        scopes: new Set(['read']),
+      });
+      expect(reader.get('login')?.error).toMatchObject({ message: 'login failed', stack: error.stack });
+    });
+
+    it('should replace a corrupted store file on the next write', () => {
+      fs.writeFileSync(filePath, 'not json');
+      store.initialize({ persistCache: true, cacheFilePath: filePath });
+
+      store.set('login', 'passed', { token: 'abc' });
+
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf-8')).results.login.data).toEqual({ token: 'abc' });
+    });
+  });
+
+  describe('adapters', () => {
+    function createAsyncAdapter(delay = 0) {
+      const results = new Map<string, TestResult>();
+      const writes: string[] = [];
+      const wait = () => new Promise(resolve => setTimeout(resolve, delay));
+      const adapter: AsyncRelayStoreAdapter = {
+        async: true,
+        get: async key => { await wait(); return results.get(key); },
+        set: async (key, result) => { await wait(); results.set(key, result); writes.push(`${key}: ${result.status}`); },
+        delete: async key => { results.delete(key); },
+        list: async () => [...results.keys()],
+        clear: async () => { results.clear(); },
+      };
+      return { adapter, results, writes };
+    }
+
+    it('should keep results in the configured adapter, including those stored before', () => {
+      const adapter = createMemoryAdapter();
+      store.set('login', 'passed', { token: 'abc' });
+
+      store.initialize({ adapter });
+      store.set('signup', 'passed', { id: 1 });
+
+      expect(adapter.list().sort()).toEqual(['login', 'signup']);
+      expect(store.isInitialized()).toBe(true);
+    });
+
+    it('should read results other processes put in the adapter', () => {
+      const adapter = createMemoryAdapter();
+      store.initialize({ adapter });
+
+      adapter.set('login', { status: 'passed', data: { token: 'abc' }, timestamp: Date.now() });
+
+      expect(store.getData('login')).toEqual({ token: 'abc' });
+      expect(store.keys()).toEqual(['login']);
+    });
+
+    it('should write through to an asynchronous adapter in order', async () => {
+      const { adapter, writes } = createAsyncAdapter(5);
+      store.initialize({ adapter });
+
+      store.set('login', 'running');
+      store.set('login', 'passed', { token: 'abc' });
+      expect(store.getData('login')).toEqual({ token: 'abc' });
+
+      await store.flush();
+      expect(writes).toEqual(['login: running', 'login: passed']);
+    });
+
+    it('should read newer results from an asynchronous adapter', async () => {
+      const { adapter, results } = createAsyncAdapter();
+      store.initialize({ adapter });
+      store.set('login', 'running');
+      results.set('login', { status: 'passed', data: { token: 'abc' }, timestamp: Date.now() + 1 });
+      results.set('signup', { status: 'passed', timestamp: Date.now() });
+
+      expect((await store.getAsync('login'))?.status).toBe('passed');
+      expect(store.has('signup')).toBe(false);
+      expect(await store.load()).toBe(1);
+      expect(store.has('signup')).toBe(true);
+    });
+
+    it('should report failed writes to an asynchronous adapter instead of throwing on flush', async () => {
+      const failures: Array<{ testKey?: string; error: Error }> = [];
+      const { adapter } = createAsyncAdapter();
+      adapter.set = async () => { throw new Error('connection refused'); };
+      store.initialize({ adapter, hooks: { onCacheSaveFailed: event => { failures.push(event); } } });
+
+      store.set('login', 'passed', { token: 'abc' });
+
+      await expect(store.flush()).resolves.toBeUndefined();
+      expect(failures).toHaveLength(1);
+      expect(failures[0].testKey).toBe('login');
+      expect(failures[0].error.message).toBe('connection refused');
+      expect(store.getData('login')).toEqual({ token: 'abc' });
+    });
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should treat results older than maxAge as missing and report them once', () => {
+      const expired: Array<{ testKey: string; age: number; maxAge: number }> = [];
+      store.setHooks({ onCacheExpired: event => { expired.push(event); } });
+      store.setMaxAge(1000);
+      store.set('login', 'passed', { token: 'abc' });
+
+      vi.setSystemTime(Date.now() + 1500);
+
+      expect(store.get('login')).toBeUndefined();
+      expect(store.getData('login')).toBeUndefined();
+      expect(store.getStatus('login')).toBe('pending');
+      expect(store.keys()).toEqual([]);
+      expect(expired).toEqual([{ testKey: 'login', age: 1500, maxAge: 1000 }]);
+    });
+
+    it('should let a read override maxAge', () => {
+      store.setMaxAge(1000);
+      store.set('login', 'passed');
+
+      vi.setSystemTime(Date.now() + 1500);
+
+      expect(store.has('login', { maxAge: 2000 })).toBe(true);
+      expect(store.has('login', { maxAge: 500 })).toBe(false);
+    });
+
+    it('should never expire results of tests still running', () => {
+      store.setMaxAge(1000);
+      store.set('login', 'running');
+
+      vi.setSystemTime(Date.now() + 1500);
+
+      expect(store.getStatus('login')).toBe('running');
+    });
+  });
+
+  describe('source changes', () => {
+    let dir: string;
+    let specFile: string;
+    let cacheFile: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-source-'));
+      specFile = path.join(dir, 'auth.spec.ts');
+      cacheFile = path.join(dir, 'cache.json');
+      fs.writeFileSync(specFile, `test('login', async () => ({ token: 'abc' }));\n`);
+      clearFingerprintCache();
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function storeLoginResult(): void {
+      const previousRun = new ResultStore();
+      previousRun.initialize({ persistCache: true, cacheFilePath: cacheFile });
+      previousRun.set('login', 'passed', { token: 'abc' });
+      previousRun.setSource('login', getResultSource(specFile, 'login')!);
+    }
+
+    it('should keep persisted results of tests that did not change', () => {
+      storeLoginResult();
+
+      store.initialize({ persistCache: true, cacheFilePath: cacheFile });
+
+      expect(store.getData('login')).toEqual({ token: 'abc' });
+    });
+
+    it('should discard persisted results of tests whose source changed', () => {
+      const invalidated: Array<{ testKey: string; file: string }> = [];
+      storeLoginResult();
+      fs.writeFileSync(specFile, `test('login', async () => ({ accessToken: 'abc' }));\n`);
+
+      store.initialize({
+        persistCache: true,
+        cacheFilePath: cacheFile,
+        hooks: { onCacheInvalidated: event => { invalidated.push(event); } },
+      });
+
+      expect(store.get('login')).toBeUndefined();
+      expect(invalidated).toEqual([{ testKey: 'login', file: specFile }]);
+      expect(JSON.parse(fs.readFileSync(cacheFile, 'utf-8')).results).toEqual({});
+    });
+
+    it('should discard outdated results of an asynchronous adapter on load', async () => {
+      const remote = new Map<string, TestResult>();
+      const adapter: AsyncRelayStoreAdapter = {
+        async: true,
+        get: async key => remote.get(key),
+        set: async (key, result) => { remote.set(key, result); },
+        delete: async key => { remote.delete(key); },
+        list: async () => [...remote.keys()],
+        clear: async () => { remote.clear(); },
+      };
+      remote.set('login', {
+        status: 'passed',
+        timestamp: Date.now(),
+        source: { ...getResultSource(specFile, 'login')!, hash: 'outdated' },
+      });
+
+      store.setAdapter(adapter);
+
+      expect(await store.load()).toBe(0);
+      await store.flush();
+      expect(remote.size).toBe(0);
+    });
+
+    it('should discard outdated results read from an asynchronous adapter', async () => {
+      const invalidated: Array<{ testKey: string; file: string }> = [];
+      const remote = new Map<string, TestResult>();
+      const adapter: AsyncRelayStoreAdapter = {
+        async: true,
+        get: async key => remote.get(key),
+        set: async (key, result) => { remote.set(key, result); },
+        delete: async key => { remote.delete(key); },
+        list: async () => [...remote.keys()],
+        clear: async () => { remote.clear(); },
+      };
+      store.initialize({ adapter, hooks: { onCacheInvalidated: event => { invalidated.push(event); } } });
+      remote.set('login', {
+        status: 'passed',
+        timestamp: Date.now(),
+        source: { ...getResultSource(specFile, 'login')!, hash: 'outdated' },
+      });
+
+      expect(await store.getAsync('login')).toBeUndefined();
+      expect(invalidated).toEqual([{ testKey: 'login', file: specFile }]);
+      await store.flush();
+      expect(remote.size).toBe(0);
+    });
+
+    it('should not import results of tests whose source changed', () => {
+      const invalidated: Array<{ testKey: string; file: string }> = [];
+      storeLoginResult();
+      fs.writeFileSync(specFile, `test('login', async () => ({ accessToken: 'abc' }));\n`);
+      store.initialize({ hooks: { onCacheInvalidated: event => { invalidated.push(event); } } });
+
+      expect(store.importFromFile(cacheFile)).toBe(0);
+      expect(store.get('login')).toBeUndefined();
+      expect(invalidated).toEqual([{ testKey: 'login', file: specFile }]);
+    });
+  });
 });
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runWithTimeout, DependencyTimeoutError } from '../src/timeout';
+
+describe('runWithTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should clear its timer once the function settles', async () => {
+    vi.useFakeTimers();
+
+    await expect(runWithTimeout('create user', 1000, async () => 'done')).resolves.toBe('done');
+    await expect(runWithTimeout('create user', 1000, async () => { throw new Error('boom'); }))
+      .rejects.toThrow('boom');
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should abort the signal and reject with a DependencyTimeoutError naming the dependency', async () => {
+    let signal: AbortSignal | undefined;
+
+    const error = await runWithTimeout('create user', 10, s => {
+      signal = s;
+      return new Promise(() => undefined);
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DependencyTimeoutError);
+    expect(error).toMatchObject({ dependency: 'create user', timeout: 10 });
+    expect(error.elapsed).toBeGreaterThanOrEqual(9);
+    expect(error.message).toMatch(/^Dependency "create user" timed out after \d+ms \(dependencyTimeout: 10ms\)$/);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBe(error);
+  });
+});